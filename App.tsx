@@ -1,24 +1,31 @@
 
-import React, { useState, useCallback, useRef } from 'react';
-import { GrainSettings, GrainTexture, AIRecipe, APP_LIMITS } from './types';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { GrainSettings, GrainTexture, OutputMode, BlendMode, ColorMode, AIRecipe, APP_LIMITS, DEFAULT_SETTINGS, LAYER_FIELDS, LayerStyle } from './types';
 import GrainCanvas from './components/GrainCanvas';
-import { fetchGrainRecipes } from './services/geminiService';
-
-const DEFAULT_SETTINGS: GrainSettings = {
-  width: 1920,
-  height: 1080,
-  ppi: 72,
-  intensity: 0.15,
-  scale: 1,
-  roughness: 0,
-  opacity: 1,
-  randomness: 0,
-  seed: 12345,
-  bgColor: '#FFFFFF',
-  grainColor: '#000000',
-  texture: GrainTexture.UNIFORM,
-  monochrome: true,
-};
+import ResponseCurveEditor from './components/ResponseCurveEditor';
+import PaletteEditor from './components/PaletteEditor';
+import LayerStack from './components/LayerStack';
+import MaskControls from './components/MaskControls';
+import MaskPainter, { MaskBrush } from './components/MaskPainter';
+import ExportDialog from './components/ExportDialog';
+import RecipeLibrary from './components/RecipeLibrary';
+import AISettingsDialog from './components/AISettingsDialog';
+import ScanMatchDialog from './components/ScanMatchDialog';
+import VariationsDialog from './components/VariationsDialog';
+import AnimationDialog from './components/AnimationDialog';
+import RecipeDiff from './components/RecipeDiff';
+import { useSettingsHistory, SetSettingsOptions } from './hooks/useSettingsHistory';
+import { useRecipeLibrary } from './hooks/useRecipeLibrary';
+import { CheckedRecipe, fetchGrainRecipes, refineGrainRecipes, getRecipeProvider, loadProviderConfig, saveProviderConfig } from './services/aiService';
+import { AIProviderConfig, RefineTurn } from './services/aiProvider';
+import { BaseImage, IMPORT_IMAGE_TYPES, loadImageFile } from './services/imageService';
+import {
+  readEmbeddedRecipe, encodeSettingsHash, decodeSettingsHash, createRecipeFile, readRecipeFile, RECIPE_FILE_EXTENSION,
+} from './services/recipeService';
+import { ENGINE_VERSION } from './engine/grainEngine';
+import { applyLayerPatch, getLayerSettings } from './engine/layers';
+import { ExportOptions, DEFAULT_EXPORT_OPTIONS, exportImage, getFormatInfo, downloadBlob, isLargeFormat } from './services/exportService';
+import { AnimationOptions, DEFAULT_ANIMATION_OPTIONS } from './services/animationService';
 
 const PRESETS = [
   { name: 'EDITORIAL STORY', w: 1080, h: 1920 },
@@ -33,54 +40,194 @@ const ENGINE_CONTROLS = [
   { label: 'Randomness', key: 'randomness', max: 1, step: 0.01, desc: 'Introduces organic irregularity and clumping to the distribution.' },
 ] as const;
 
+interface SliderControl {
+  label: string;
+  key: keyof GrainSettings;
+  min?: number;
+  max: number;
+  step: number;
+  desc: string;
+}
+
+// Extra parameters for the structured models, shown below the engine sliders
+const MODEL_CONTROLS: Partial<Record<GrainTexture, SliderControl[]>> = {
+  [GrainTexture.PERLIN]: [
+    { label: 'Octaves', key: 'octaves', min: 1, max: APP_LIMITS.MAX_OCTAVES, step: 1, desc: 'Number of fractal detail layers stacked on top of each other.' },
+    { label: 'Persistence', key: 'persistence', max: 1, step: 0.01, desc: 'How much each finer octave contributes relative to the previous one.' },
+  ],
+  [GrainTexture.PAPER_FIBER]: [
+    { label: 'Fiber Angle', key: 'fiberAngle', max: 180, step: 1, desc: 'Direction of the paper fibers in degrees.' },
+  ],
+};
+
+const OPACITY_CONTROL: SliderControl = { label: 'Layer Opacity', key: 'opacity', max: 1, step: 0.01, desc: 'How strongly the selected layer shows over the layers below it.' };
+
+const COLOR_MODES = [
+  { mode: ColorMode.MONO, label: 'Mono' },
+  { mode: ColorMode.COLOR, label: 'Color' },
+  { mode: ColorMode.PALETTE, label: 'Palette' },
+];
+
+const COLOR_CONTROLS: SliderControl[] = [
+  { label: 'Luma Noise', key: 'lumaNoise', max: 1, step: 0.01, desc: 'How much the grain varies in brightness. 1 matches mono grain.' },
+  { label: 'Chroma Noise', key: 'chromaNoise', max: 1, step: 0.01, desc: 'How much the grain varies in hue, without changing its brightness.' },
+];
+
+// Film dye layers: each channel's share of the grain and its particle size relative to Grain Scale
+const CHANNELS = [
+  { label: 'R', color: '#E5484D' },
+  { label: 'G', color: '#30A46C' },
+  { label: 'B', color: '#0090FF' },
+];
+
+// Shape of the clumps, shown once Randomness starts clumping the grain
+const CLUMP_CONTROLS: SliderControl[] = [
+  { label: 'Clump Size', key: 'clumpSize', min: APP_LIMITS.MIN_CLUMP_SIZE, max: APP_LIMITS.MAX_CLUMP_SIZE, step: 1, desc: 'Width of one clump, in grain particles.' },
+  { label: 'Clump Octaves', key: 'clumpOctaves', min: 1, max: APP_LIMITS.MAX_CLUMP_OCTAVES, step: 1, desc: 'Finer clumps layered inside the large ones for a more irregular spread.' },
+  { label: 'Clump Contrast', key: 'clumpContrast', max: 1, step: 0.01, desc: 'How sharply clumps separate from the thinned-out areas between them.' },
+  { label: 'Clump Angle', key: 'clumpAngle', max: 180, step: 1, desc: 'Direction of stretched clumps in degrees. Tileable textures snap to horizontal or vertical.' },
+  { label: 'Clump Stretch', key: 'clumpStretch', min: 1, max: APP_LIMITS.MAX_CLUMP_STRETCH, step: 0.1, desc: 'Elongates clumps into streaks along the clump angle. 1 keeps them round.' },
+];
+
+const BLEND_MODES = [
+  { mode: BlendMode.NORMAL, label: 'Normal' },
+  { mode: BlendMode.MULTIPLY, label: 'Multiply' },
+  { mode: BlendMode.SCREEN, label: 'Screen' },
+  { mode: BlendMode.OVERLAY, label: 'Overlay' },
+  { mode: BlendMode.SOFT_LIGHT, label: 'Soft Light' },
+  { mode: BlendMode.LINEAR_LIGHT, label: 'Linear Light' },
+];
+
+const OUTPUT_MODES = [
+  { mode: OutputMode.CONTINUOUS, label: 'Continuous' },
+  { mode: OutputMode.BAYER, label: 'Bayer Ordered' },
+  { mode: OutputMode.FLOYD_STEINBERG, label: 'Floyd–Steinberg' },
+  { mode: OutputMode.ATKINSON, label: 'Atkinson' },
+  { mode: OutputMode.HALFTONE, label: 'AM Halftone' },
+];
+
+const HALFTONE_CONTROLS: SliderControl[] = [
+  { label: 'Screen Ruling (LPI)', key: 'halftoneLpi', min: APP_LIMITS.MIN_LPI, max: APP_LIMITS.MAX_LPI, step: 1, desc: 'Halftone lines per inch. Combined with the PPI this sets the physical dot frequency at print size.' },
+  { label: 'Screen Angle', key: 'halftoneAngle', max: 90, step: 1, desc: 'Rotation of the halftone dot grid in degrees.' },
+];
+
+// Range inputs and color pickers change continuously; each drag is one undo step
+const CONTINUOUS: SetSettingsOptions = { coalesce: true };
+
 const App: React.FC = () => {
-  const [settings, setSettings] = useState<GrainSettings>(DEFAULT_SETTINGS);
+  const {
+    settings, setSettings, undo, redo, canUndo, canRedo,
+    snapshots, pinSnapshot, restoreSnapshot, removeSnapshot,
+  } = useSettingsHistory(DEFAULT_SETTINGS);
+  const [snapshotName, setSnapshotName] = useState('');
+  const library = useRecipeLibrary();
+  const [savedRecipes, setSavedRecipes] = useState<Set<AIRecipe>>(new Set());
   const [unit, setUnit] = useState<'PX' | 'MM'>('PX');
-  const [aiRecipes, setAiRecipes] = useState<AIRecipe[]>([]);
+  const [showRepeat, setShowRepeat] = useState(false);
+  const [baseImage, setBaseImage] = useState<BaseImage | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [aiRecipes, setAiRecipes] = useState<CheckedRecipe[]>([]);
+  const [aiError, setAiError] = useState<string | null>(null);
+  // NEW generates from a style prompt; REFINE adjusts what's on the canvas
+  const [aiMode, setAiMode] = useState<'NEW' | 'REFINE'>('NEW');
+  // Refinements so far this session, sent along so each one builds on the last
+  const [refineHistory, setRefineHistory] = useState<RefineTurn[]>([]);
   const [loadingAI, setLoadingAI] = useState(false);
   const [aiPrompt, setAiPrompt] = useState('');
+  const [aiConfig, setAiConfig] = useState<AIProviderConfig>(loadProviderConfig);
+  const [showAISettings, setShowAISettings] = useState(false);
   const [seedCopied, setSeedCopied] = useState(false);
   const [imageCopied, setImageCopied] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState(0);
   const [activeTooltip, setActiveTooltip] = useState<{text: string, x: number, y: number} | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  // Reference scan being matched in the dialog
+  const [scanFile, setScanFile] = useState<File | null>(null);
+  const [showVariations, setShowVariations] = useState(false);
+  const [animationOptions, setAnimationOptions] = useState<AnimationOptions>(DEFAULT_ANIMATION_OPTIONS);
+  const [showAnimation, setShowAnimation] = useState(false);
+  const [activeLayer, setActiveLayer] = useState(0);
+  const [paintingMask, setPaintingMask] = useState(false);
+  const [maskBrush, setMaskBrush] = useState<MaskBrush>({ size: 0.1, density: 0 });
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const pxToMm = (px: number, ppi: number) => parseFloat(((px * 25.4) / ppi).toFixed(1));
   const mmToPx = (mm: number, ppi: number) => Math.round((mm / 25.4) * ppi);
 
-  const handleDownload = () => {
-    if (!canvasRef.current) return;
-    const link = document.createElement('a');
-    link.download = `Grainy_Editorial_${settings.width}x${settings.height}.png`;
-    link.href = canvasRef.current.toDataURL('image/png');
-    link.click();
+  const handleDownload = async () => {
+    const info = getFormatInfo(exportOptions.format);
+    const prefix = exportOptions.transparent && info.alpha ? 'Grainy_Layer' : 'Grainy_Editorial';
+
+    setExporting(true);
+    setExportProgress(0);
+    try {
+      const blob = await exportImage(settings, canvasRef.current, baseImage, exportOptions, setExportProgress);
+      downloadBlob(blob, `${prefix}_${settings.width}x${settings.height}.${info.extension}`);
+      setShowExportDialog(false);
+    } catch (err) {
+      console.error('Failed to export image', err);
+      alert(err instanceof Error ? err.message : `Failed to export the ${info.label} file.`);
+    } finally {
+      setExporting(false);
+    }
   };
 
-  const handleCopyImage = () => {
-    if (!canvasRef.current) return;
-    
-    canvasRef.current.toBlob(async (blob) => {
-      if (!blob) return;
-      try {
-        await navigator.clipboard.write([
-          new ClipboardItem({
-            'image/png': blob
-          })
-        ]);
-        setImageCopied(true);
-        setTimeout(() => setImageCopied(false), 2000);
-      } catch (err) {
-        console.error('Failed to copy to clipboard', err);
-        alert('Failed to copy image. Please try downloading instead.');
-      }
-    });
+  const handleCopyImage = async () => {
+    // Full-resolution large formats are too big for the clipboard
+    if (isLargeFormat(settings)) return;
+
+    setExporting(true);
+    try {
+      // Pass the pending blob so the clipboard write stays inside the click gesture
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          'image/png': exportImage(settings, canvasRef.current, baseImage, { ...exportOptions, format: 'PNG' })
+        })
+      ]);
+      setImageCopied(true);
+      setTimeout(() => setImageCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard', err);
+      alert('Failed to copy image. Please try downloading instead.');
+    } finally {
+      setExporting(false);
+    }
   };
 
-  const updateSetting = <K extends keyof GrainSettings>(key: K, value: GrainSettings[K]) => {
+  // The selected layer as the sidebar controls see it; undo or a loaded recipe may have removed it
+  const layerIndex = Math.min(activeLayer, settings.layers.length);
+  const layer = getLayerSettings(settings, layerIndex);
+
+  // Snapshots matching what's on the canvas, compared once per change rather than every render
+  const activeSnapshots = useMemo(() => {
+    const current = JSON.stringify(settings);
+    return new Set(snapshots.filter(s => s.settings === settings || JSON.stringify(s.settings) === current).map(s => s.id));
+  }, [settings, snapshots]);
+
+  const updateSetting = <K extends keyof GrainSettings>(key: K, value: GrainSettings[K], options?: SetSettingsOptions) => {
     let finalValue = value;
     if (key === 'width' || key === 'height') {
-      finalValue = Math.min(Math.max(APP_LIMITS.MIN_DIMENSION, Number(value)), APP_LIMITS.MAX_DIMENSION) as any;
+      finalValue = Math.min(Math.max(APP_LIMITS.MIN_DIMENSION, Number(value)), APP_LIMITS.MAX_TILED_DIMENSION) as any;
+    }
+    // Style fields of an upper layer live in that layer
+    if (layerIndex > 0 && (LAYER_FIELDS as readonly string[]).includes(key)) {
+      setSettings(prev => ({
+        ...prev,
+        layers: prev.layers.map((l, i) => (i === layerIndex - 1 ? { ...l, settings: { ...l.settings, [key as keyof LayerStyle]: finalValue } } : l)),
+      }), options);
+      return;
     }
-    setSettings(prev => ({ ...prev, [key]: finalValue }));
+    setSettings(prev => ({ ...prev, [key]: finalValue }), options);
+  };
+
+  const updateChannel = (key: 'channelIntensity' | 'channelScale', channel: number, value: number) => {
+    updateSetting(key, layer[key].map((v, i) => (i === channel ? value : v)), CONTINUOUS);
   };
 
   const randomizeSeed = () => {
@@ -88,7 +235,7 @@ const App: React.FC = () => {
   };
 
   const copySeedToClipboard = () => {
-    navigator.clipboard.writeText(settings.seed.toString());
+    navigator.clipboard.writeText(layer.seed.toString());
     setSeedCopied(true);
     setTimeout(() => setSeedCopied(false), 2000);
   };
@@ -119,8 +266,8 @@ const App: React.FC = () => {
         
         setSettings(prev => ({
             ...prev,
-            width: Math.min(Math.max(APP_LIMITS.MIN_DIMENSION, newW), APP_LIMITS.MAX_DIMENSION),
-            height: Math.min(Math.max(APP_LIMITS.MIN_DIMENSION, newH), APP_LIMITS.MAX_DIMENSION),
+            width: Math.min(Math.max(APP_LIMITS.MIN_DIMENSION, newW), APP_LIMITS.MAX_TILED_DIMENSION),
+            height: Math.min(Math.max(APP_LIMITS.MIN_DIMENSION, newH), APP_LIMITS.MAX_TILED_DIMENSION),
             ppi: newPpi
         }));
     } else {
@@ -130,26 +277,178 @@ const App: React.FC = () => {
   };
 
   const handleGenerateAI = async () => {
-    if (!aiPrompt.trim()) return;
+    const prompt = aiPrompt.trim();
+    if (!prompt) return;
     setLoadingAI(true);
+    setAiError(null);
     try {
-      const recipes = await fetchGrainRecipes(aiPrompt);
-      setAiRecipes(recipes);
+      if (aiMode === 'REFINE') {
+        setAiRecipes(await refineGrainRecipes(prompt, layer, refineHistory, aiConfig));
+        setRefineHistory(prev => [...prev, { instruction: prompt, applied: null }]);
+        setAiPrompt('');
+      } else {
+        setAiRecipes(await fetchGrainRecipes(prompt, aiConfig));
+      }
     } catch (error) {
       console.error(error);
+      setAiRecipes([]);
+      setAiError(`${getRecipeProvider(aiConfig.provider).label} failed: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
       setLoadingAI(false);
     }
   };
 
   const applyRecipe = (recipe: AIRecipe) => {
-    setSettings(prev => ({ ...prev, ...recipe.settings }));
+    setSettings(prev => applyLayerPatch(prev, layerIndex, recipe.settings));
+    if (aiMode === 'REFINE') {
+      // The next refinement hears which variant was picked
+      setRefineHistory(prev => prev.length ? [...prev.slice(0, -1), { ...prev[prev.length - 1], applied: recipe }] : prev);
+    }
+  };
+
+  const switchAiMode = (mode: 'NEW' | 'REFINE') => {
+    if (mode === aiMode) return;
+    setAiMode(mode);
+    setAiRecipes([]);
+    setAiError(null);
+  };
+
+  // AI recipes only carry the fields they change, so they are saved on top of the current settings
+  const saveRecipeToLibrary = async (recipe: AIRecipe) => {
+    try {
+      await library.save({ name: recipe.name, description: recipe.description, tags: ['ai'], settings: applyLayerPatch(settings, layerIndex, recipe.settings) });
+      setSavedRecipes(prev => new Set(prev).add(recipe));
+    } catch (err) {
+      console.error('Failed to save recipe', err);
+      alert(err instanceof Error ? err.message : 'Failed to save the recipe.');
+    }
   };
 
-  const onCanvasReady = useCallback((canvas: HTMLCanvasElement) => {
+  // Null while a render is in progress, so exports and copies render off-screen instead
+  const onCanvasReady = useCallback((canvas: HTMLCanvasElement | null) => {
     canvasRef.current = canvas;
   }, []);
 
+  const handleImageFile = async (file: File) => {
+    try {
+      const image = await loadImageFile(file);
+      setBaseImage(image);
+      // Match the canvas to the photo so the grain covers it 1:1
+      setSettings(prev => ({ ...prev, width: image.buffer.width, height: image.buffer.height }));
+    } catch (err) {
+      console.error('Failed to load image', err);
+      alert(err instanceof Error ? err.message : 'Failed to load image.');
+    }
+  };
+
+  const warnEngineVersion = (engineVersion: number) => {
+    if (engineVersion === ENGINE_VERSION) return;
+    alert(`This recipe was saved by engine v${engineVersion}; the current engine (v${ENGINE_VERSION}) may render it slightly differently.`);
+  };
+
+  // Validation notes are shown once, after the recipe has been applied
+  const reportIssues = (source: string, issues: string[]) => {
+    if (issues.length === 0) return;
+    alert(`${source} was adjusted to fit this version of Grainy:\n\n${issues.join('\n')}`);
+  };
+
+  const handleRecipeFile = async (file: File) => {
+    try {
+      const { recipe, issues } = await readRecipeFile(file);
+      setSettings(recipe.settings);
+      reportIssues(`"${recipe.name}"`, issues);
+    } catch (err) {
+      console.error('Failed to import recipe', err);
+      alert(err instanceof Error ? err.message : 'Failed to import the recipe.');
+    }
+  };
+
+  const handleExportRecipe = () => {
+    const recipe = {
+      name: `${settings.texture} ${settings.seed}`,
+      description: `${settings.width}×${settings.height} px at ${settings.ppi} PPI`,
+      settings,
+    };
+    downloadBlob(createRecipeFile(recipe), `Grainy_${settings.texture}_${settings.seed}${RECIPE_FILE_EXTENSION}`);
+  };
+
+  // Puts the recipe in the address bar and on the clipboard
+  const handleCopyLink = async () => {
+    try {
+      const hash = await encodeSettingsHash(settings);
+      window.history.replaceState(null, '', hash);
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy link', err);
+      alert('Failed to copy the link. The recipe is in the address bar.');
+    }
+  };
+
+  // Recipes shared by link are applied on load and whenever the hash changes
+  useEffect(() => {
+    const applyHash = async () => {
+      try {
+        const shared = await decodeSettingsHash(window.location.hash);
+        if (!shared) return;
+        setSettings(shared.settings);
+        warnEngineVersion(shared.engineVersion);
+        reportIssues('The shared recipe', shared.issues);
+      } catch (err) {
+        console.error('Failed to read recipe link', err);
+        alert(err instanceof Error ? err.message : 'Failed to read the recipe link.');
+      }
+    };
+    applyHash();
+    window.addEventListener('hashchange', applyHash);
+    return () => window.removeEventListener('hashchange', applyHash);
+  }, [setSettings]);
+
+  // A PNG exported from Grainy or a recipe file restores its settings; any other image becomes the base layer
+  const handleDroppedFile = async (file: File) => {
+    if (file.name.endsWith('.json')) return handleRecipeFile(file);
+    try {
+      const recipe = file.type === 'image/png' ? await readEmbeddedRecipe(file) : null;
+      if (!recipe) return handleImageFile(file);
+      setSettings(recipe.settings);
+      warnEngineVersion(recipe.engineVersion);
+    } catch (err) {
+      console.error('Failed to read embedded recipe', err);
+      alert(err instanceof Error ? err.message : 'Failed to read the embedded recipe.');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleDroppedFile(file);
+  };
+
+  // Ctrl/Cmd+Z undoes, with Shift (or Ctrl+Y) redoes; text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      const isTextField = target.isContentEditable || target.tagName === 'TEXTAREA' ||
+        (target.tagName === 'INPUT' && !['range', 'color', 'button'].includes((target as HTMLInputElement).type));
+      if (isTextField) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
   const handleLabelEnter = (e: React.MouseEvent, text: string) => {
     const rect = (e.target as HTMLElement).getBoundingClientRect();
     setActiveTooltip({
@@ -159,6 +458,27 @@ const App: React.FC = () => {
     });
   };
 
+  const renderSlider = (ctrl: SliderControl) => (
+    <div key={ctrl.key} className="space-y-3 group">
+      <div className="flex justify-between items-baseline relative">
+        <label 
+          onMouseEnter={(e) => handleLabelEnter(e, ctrl.desc)}
+          onMouseLeave={() => setActiveTooltip(null)}
+          className="text-[9px] font-mono uppercase tracking-widest opacity-50 cursor-help border-b border-dotted border-zinc-300 hover:text-black hover:opacity-100 transition-all"
+        >
+          {ctrl.label}
+        </label>
+        <span className="text-[10px] font-mono font-bold">{(layer[ctrl.key] as number).toFixed(ctrl.step >= 1 ? 0 : 2)}</span>
+      </div>
+      <input 
+        type="range" min={ctrl.min ?? 0} max={ctrl.max} step={ctrl.step}
+        value={layer[ctrl.key] as number}
+        onChange={e => updateSetting(ctrl.key as any, Number(e.target.value), CONTINUOUS)}
+        className="w-full"
+      />
+    </div>
+  );
+
   return (
     <div className="flex h-screen w-screen overflow-hidden bg-white selection:bg-black selection:text-white relative">
       
@@ -194,10 +514,39 @@ const App: React.FC = () => {
                 <path strokeLinecap="square" strokeLinejoin="miter" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
               </svg>
             </button>
+            <div className="flex border border-black ml-auto">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                className="px-2 py-1 text-[9px] font-mono font-bold hover:bg-black hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                title="Undo (Ctrl+Z)"
+              >UNDO</button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                className="px-2 py-1 text-[9px] font-mono font-bold border-l border-black hover:bg-black hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                title="Redo (Ctrl+Shift+Z)"
+              >REDO</button>
+            </div>
           </div>
         </div>
 
         <div className="flex-1 overflow-y-auto p-0 scrollbar-none">
+          {/* Layer Stack Section */}
+          <section className="p-8 space-y-6 border-b-2 border-black">
+            <h3 className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-zinc-400 italic">00 / Layers</h3>
+            <LayerStack
+              settings={settings}
+              active={layerIndex}
+              onSelect={setActiveLayer}
+              onChange={(next, active) => {
+                setSettings(next);
+                setActiveLayer(active);
+              }}
+            />
+            {renderSlider(OPACITY_CONTROL)}
+          </section>
+
           {/* Engine Section - Model Selection */}
           <section>
             <div className="grid grid-cols-1 border-b-2 border-black">
@@ -206,7 +555,7 @@ const App: React.FC = () => {
                   key={type}
                   onClick={() => updateSetting('texture', type)}
                   className={`py-5 px-10 text-[10px] font-mono uppercase font-bold tracking-[0.2em] text-left border-b border-zinc-200 last:border-b-0 transition-colors ${
-                    settings.texture === type ? 'bg-black text-white' : 'hover:bg-zinc-50'
+                    layer.texture === type ? 'bg-black text-white' : 'hover:bg-zinc-50'
                   }`}
                 >
                   {type}
@@ -263,6 +612,26 @@ const App: React.FC = () => {
                   />
                 </div>
 
+              <div className="flex justify-between items-center">
+                <label 
+                  onMouseEnter={(e) => handleLabelEnter(e, "Wraps the grain, clumps and blur at the edges so the texture repeats without seams.")}
+                  onMouseLeave={() => setActiveTooltip(null)}
+                  className="text-[9px] font-mono uppercase tracking-widest opacity-50 cursor-help border-b border-dotted border-zinc-300 hover:text-black hover:opacity-100 transition-all"
+                >
+                  Tileable
+                </label>
+                <div className="flex border border-black">
+                  <button 
+                    onClick={() => updateSetting('tileable', false)}
+                    className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${!settings.tileable ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+                  >OFF</button>
+                  <button 
+                    onClick={() => updateSetting('tileable', true)}
+                    className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${settings.tileable ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+                  >ON</button>
+                </div>
+              </div>
+
               <div className="space-y-4 pt-2">
                 {PRESETS.map(p => (
                   <button 
@@ -281,26 +650,8 @@ const App: React.FC = () => {
             <section className="space-y-8">
               <h3 className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-zinc-400 italic">02 / Engine</h3>
               
-              {ENGINE_CONTROLS.map(ctrl => (
-                <div key={ctrl.key} className="space-y-3 group">
-                  <div className="flex justify-between items-baseline relative">
-                    <label 
-                      onMouseEnter={(e) => handleLabelEnter(e, ctrl.desc)}
-                      onMouseLeave={() => setActiveTooltip(null)}
-                      className="text-[9px] font-mono uppercase tracking-widest opacity-50 cursor-help border-b border-dotted border-zinc-300 hover:text-black hover:opacity-100 transition-all"
-                    >
-                      {ctrl.label}
-                    </label>
-                    <span className="text-[10px] font-mono font-bold">{(settings[ctrl.key as keyof GrainSettings] as number).toFixed(2)}</span>
-                  </div>
-                  <input 
-                    type="range" min="0" max={ctrl.max} step={ctrl.step}
-                    value={settings[ctrl.key as keyof GrainSettings] as number}
-                    onChange={e => updateSetting(ctrl.key as any, Number(e.target.value))}
-                    className="w-full"
-                  />
-                </div>
-              ))}
+              {[...ENGINE_CONTROLS, ...(MODEL_CONTROLS[layer.texture] || [])].map(renderSlider)}
+              {layer.randomness > 0.05 && CLUMP_CONTROLS.map(renderSlider)}
 
                {/* Seed Control */}
                <div className="space-y-3">
@@ -312,17 +663,26 @@ const App: React.FC = () => {
                     >
                       Seed
                     </label>
-                    <button 
-                      onClick={randomizeSeed}
-                      className="text-[9px] font-mono font-bold underline hover:text-black hover:bg-zinc-100 px-1"
-                    >
-                      RANDOMIZE
-                    </button>
+                    <div className="flex gap-1">
+                      <button 
+                        onClick={randomizeSeed}
+                        className="text-[9px] font-mono font-bold underline hover:text-black hover:bg-zinc-100 px-1"
+                      >
+                        RANDOMIZE
+                      </button>
+                      <button 
+                        onClick={() => setShowVariations(true)}
+                        className="text-[9px] font-mono font-bold underline hover:text-black hover:bg-zinc-100 px-1"
+                        title="Compare a grid of seeds or a sweep of an engine control"
+                      >
+                        VARIATIONS…
+                      </button>
+                    </div>
                   </div>
                   <div className="flex items-center border-b border-black focus-within:border-b-4 transition-all">
                     <input 
                       type="number" 
-                      value={settings.seed}
+                      value={layer.seed}
                       onChange={e => updateSetting('seed', Number(e.target.value))}
                       className="flex-1 bg-transparent border-none py-2 text-sm font-mono focus:outline-none min-w-0"
                     />
@@ -350,7 +710,7 @@ const App: React.FC = () => {
                   <input 
                     type="color" 
                     value={settings.bgColor}
-                    onChange={e => updateSetting('bgColor', e.target.value)}
+                    onChange={e => updateSetting('bgColor', e.target.value, CONTINUOUS)}
                     className="w-full h-8 bg-transparent cursor-pointer border border-black p-0.5"
                   />
                   <div className="text-[8px] font-mono text-center opacity-50">{settings.bgColor}</div>
@@ -359,22 +719,276 @@ const App: React.FC = () => {
                   <label className="text-[8px] font-mono uppercase font-bold">Grain</label>
                   <input 
                     type="color" 
-                    value={settings.grainColor}
-                    onChange={e => updateSetting('grainColor', e.target.value)}
+                    value={layer.grainColor}
+                    onChange={e => updateSetting('grainColor', e.target.value, CONTINUOUS)}
                     className="w-full h-8 bg-transparent cursor-pointer border border-black p-0.5"
                   />
-                  <div className="text-[8px] font-mono text-center opacity-50">{settings.grainColor}</div>
+                  <div className="text-[8px] font-mono text-center opacity-50">{layer.grainColor}</div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 border border-black">
+                {COLOR_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => updateSetting('colorMode', mode)}
+                    className={`py-2 text-[9px] font-mono font-bold uppercase tracking-widest border-r border-black last:border-r-0 transition-colors ${
+                      layer.colorMode === mode ? 'bg-black text-white' : 'hover:bg-zinc-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {layer.colorMode === ColorMode.COLOR && (
+                <>
+                  {COLOR_CONTROLS.map(renderSlider)}
+                  <div className="space-y-3">
+                    <label
+                      onMouseEnter={(e) => handleLabelEnter(e, "Per-channel dye layers: how strongly each channel takes the grain, and its particle size relative to Grain Scale.")}
+                      onMouseLeave={() => setActiveTooltip(null)}
+                      className="text-[9px] font-mono uppercase tracking-widest opacity-50 cursor-help border-b border-dotted border-zinc-300 hover:text-black hover:opacity-100 transition-all"
+                    >
+                      Dye Layers
+                    </label>
+                    <div className="border border-black">
+                      {CHANNELS.map(({ label, color }, c) => (
+                        <div key={label} className="grid grid-cols-[16px_1fr_1fr] gap-3 items-center px-3 py-2 border-b border-zinc-200 last:border-b-0">
+                          <span className="text-[9px] font-mono font-bold" style={{ color }}>{label}</span>
+                          <input
+                            type="range" min="0" max="1" step="0.01"
+                            value={layer.channelIntensity[c]}
+                            onChange={e => updateChannel('channelIntensity', c, Number(e.target.value))}
+                            title={`Strength ${layer.channelIntensity[c].toFixed(2)}`}
+                          />
+                          <input
+                            type="range" min={APP_LIMITS.MIN_CHANNEL_SCALE} max={APP_LIMITS.MAX_CHANNEL_SCALE} step="0.05"
+                            value={layer.channelScale[c]}
+                            onChange={e => updateChannel('channelScale', c, Number(e.target.value))}
+                            title={`Size ×${layer.channelScale[c].toFixed(2)}`}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-[16px_1fr_1fr] gap-3 px-3 text-[8px] font-mono uppercase opacity-50">
+                      <span />
+                      <span>Strength</span>
+                      <span>Size</span>
+                    </div>
+                  </div>
+                </>
+              )}
+
+              {layer.colorMode === ColorMode.PALETTE && (
+                <PaletteEditor
+                  palette={layer.palette}
+                  onChange={(palette, options) => updateSetting('palette', palette, options)}
+                />
+              )}
+
+              <div className="space-y-3">
+                <label 
+                  onMouseEnter={(e) => handleLabelEnter(e, "How the grain color combines with the background or image underneath.")}
+                  onMouseLeave={() => setActiveTooltip(null)}
+                  className="text-[9px] font-mono uppercase tracking-widest opacity-50 cursor-help border-b border-dotted border-zinc-300 hover:text-black hover:opacity-100 transition-all"
+                >
+                  Blend Mode
+                </label>
+                <div className="grid grid-cols-3 border border-black">
+                  {BLEND_MODES.map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      onClick={() => updateSetting('blendMode', mode)}
+                      className={`py-2 text-[8px] font-mono font-bold uppercase tracking-wider border-r border-b border-zinc-200 transition-colors ${
+                        layer.blendMode === mode ? 'bg-black text-white' : 'hover:bg-zinc-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <label 
+                  onMouseEnter={(e) => handleLabelEnter(e, "Grain strength by the luminance of the pixel underneath. Real film grain is strongest in the midtones.")}
+                  onMouseLeave={() => setActiveTooltip(null)}
+                  className="text-[9px] font-mono uppercase tracking-widest opacity-50 cursor-help border-b border-dotted border-zinc-300 hover:text-black hover:opacity-100 transition-all"
+                >
+                  Luminance Response
+                </label>
+                <ResponseCurveEditor
+                  points={layer.responseCurve}
+                  onChange={(points, options) => updateSetting('responseCurve', points, options)}
+                />
+              </div>
+            </section>
+
+            {/* Mask Section */}
+            <section className="space-y-8">
+              <h3 className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-zinc-400 italic">04 / Mask</h3>
+              <MaskControls
+                mask={layer.mask}
+                onChange={(mask, options) => updateSetting('mask', mask, options)}
+                painting={paintingMask}
+                onPaintingChange={setPaintingMask}
+                brush={maskBrush}
+                onBrushChange={setMaskBrush}
+              />
+            </section>
+
+            {/* Output Section */}
+            <section className="space-y-8">
+              <h3 className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-zinc-400 italic">05 / Output</h3>
+              <div className="grid grid-cols-1 border border-black">
+                {OUTPUT_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => updateSetting('outputMode', mode)}
+                    className={`py-3 px-4 text-[9px] font-mono uppercase font-bold tracking-[0.2em] text-left border-b border-zinc-200 last:border-b-0 transition-colors ${
+                      settings.outputMode === mode ? 'bg-black text-white' : 'hover:bg-zinc-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {settings.outputMode === OutputMode.HALFTONE && HALFTONE_CONTROLS.map(renderSlider)}
+            </section>
+
+            <section className="space-y-6">
+              <h3 className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-zinc-400 italic">06 / Snapshots</h3>
+              <div className="flex border-b border-black">
+                <input
+                  type="text"
+                  value={snapshotName}
+                  onChange={e => setSnapshotName(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key !== 'Enter') return;
+                    pinSnapshot(snapshotName);
+                    setSnapshotName('');
+                  }}
+                  placeholder="Name this state"
+                  className="flex-1 bg-transparent border-none py-2 text-sm font-mono focus:outline-none min-w-0"
+                />
+                <button
+                  onClick={() => {
+                    pinSnapshot(snapshotName);
+                    setSnapshotName('');
+                  }}
+                  className="px-3 text-[9px] font-mono font-bold uppercase tracking-widest hover:bg-black hover:text-white transition-colors"
+                >PIN</button>
+              </div>
+              {snapshots.length > 0 && (
+                <div className="border border-black">
+                  {snapshots.map(snapshot => {
+                    const active = activeSnapshots.has(snapshot.id);
+                    return (
+                      <div key={snapshot.id} className={`flex items-stretch border-b border-zinc-200 last:border-b-0 ${active ? 'bg-black text-white' : ''}`}>
+                        <button
+                          onClick={() => restoreSnapshot(snapshot.id)}
+                          className={`flex-1 py-3 px-4 text-left min-w-0 transition-colors ${active ? '' : 'hover:bg-zinc-50'}`}
+                        >
+                          <span className="block text-[10px] font-mono font-bold uppercase tracking-wider truncate">{snapshot.name}</span>
+                          <span className="block text-[8px] font-mono uppercase tracking-widest opacity-50">
+                            {snapshot.settings.texture} · Seed {snapshot.settings.seed}
+                          </span>
+                        </button>
+                        <button
+                          onClick={() => removeSnapshot(snapshot.id)}
+                          className="px-3 text-[10px] font-mono font-bold opacity-50 hover:opacity-100"
+                          title="Remove snapshot"
+                        >✕</button>
+                      </div>
+                    );
+                  })}
                 </div>
+              )}
+            </section>
+
+            <section className="space-y-6">
+              <h3 className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-zinc-400 italic">07 / Share</h3>
+              <div className="grid grid-cols-3 border border-black">
+                <button
+                  onClick={handleCopyLink}
+                  className="py-3 text-[9px] font-mono font-bold uppercase tracking-widest border-r border-black hover:bg-black hover:text-white transition-colors"
+                >{linkCopied ? 'COPIED' : 'COPY LINK'}</button>
+                <button
+                  onClick={handleExportRecipe}
+                  className="py-3 text-[9px] font-mono font-bold uppercase tracking-widest border-r border-black hover:bg-black hover:text-white transition-colors"
+                >SAVE JSON</button>
+                <button
+                  onClick={() => recipeInputRef.current?.click()}
+                  className="py-3 text-[9px] font-mono font-bold uppercase tracking-widest hover:bg-black hover:text-white transition-colors"
+                >LOAD JSON</button>
               </div>
+              <input
+                ref={recipeInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleRecipeFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </section>
+
+            <section className="space-y-6">
+              <h3 className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-zinc-400 italic">08 / Library</h3>
+              <RecipeLibrary
+                library={library}
+                settings={settings}
+                onApply={entry => setSettings(entry.settings)}
+              />
             </section>
 
             {/* AI Section */}
             <section className="pt-8 border-t-4 border-black space-y-6">
-               <h3 className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-zinc-400 italic">AI Curation</h3>
+               <div className="flex justify-between items-baseline">
+                  <h3 className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-zinc-400 italic">AI Curation</h3>
+                  <button
+                    onClick={() => setShowAISettings(true)}
+                    className="text-[9px] font-mono font-bold uppercase tracking-widest opacity-50 hover:opacity-100"
+                  >{getRecipeProvider(aiConfig.provider).label} ⚙</button>
+               </div>
+               <div className="grid grid-cols-2 border border-black">
+                  {(['NEW', 'REFINE'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => switchAiMode(mode)}
+                      className={`py-2 text-[9px] font-mono font-bold uppercase tracking-widest border-r border-black last:border-r-0 transition-colors ${
+                        aiMode === mode ? 'bg-black text-white' : 'hover:bg-zinc-50'
+                      }`}
+                    >{mode === 'NEW' ? 'New Recipes' : 'Refine Current'}</button>
+                  ))}
+               </div>
+               {aiMode === 'REFINE' && refineHistory.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-baseline">
+                      <span className="text-[9px] font-mono uppercase tracking-widest opacity-50">This Session</span>
+                      <button
+                        onClick={() => setRefineHistory([])}
+                        className="text-[9px] font-mono font-bold uppercase tracking-widest opacity-50 hover:opacity-100"
+                      >CLEAR</button>
+                    </div>
+                    <ol className="space-y-1 font-mono text-[9px] uppercase tracking-wider">
+                      {refineHistory.map((turn, idx) => (
+                        <li key={idx} className="flex gap-2">
+                          <span className="opacity-40">{idx + 1}.</span>
+                          <span className="flex-1 truncate">{turn.instruction}</span>
+                          <span className="opacity-50 truncate">{turn.applied ? `→ ${turn.applied.name}` : '—'}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+               )}
                <div className="relative group">
                   <input 
                     type="text" 
-                    placeholder="EX: VOGUE COVER, BRUTALIST..."
+                    placeholder={aiMode === 'REFINE' ? 'EX: GRITTIER, LESS CLUMPING...' : 'EX: VOGUE COVER, BRUTALIST...'}
                     value={aiPrompt}
                     onChange={e => setAiPrompt(e.target.value)}
                     onKeyDown={e => e.key === 'Enter' && handleGenerateAI()}
@@ -388,16 +1002,66 @@ const App: React.FC = () => {
                   </button>
                </div>
 
+               {aiError && (
+                  <div className="border-2 border-red-600 p-4 space-y-2">
+                    <p className="text-[9px] font-mono font-bold uppercase tracking-widest text-red-600">Error</p>
+                    <p className="text-[10px] font-mono leading-tight">{aiError}</p>
+                    <div className="flex gap-4">
+                      <button onClick={handleGenerateAI} className="text-[9px] font-mono font-bold uppercase tracking-widest hover:underline">RETRY</button>
+                      <button onClick={() => setShowAISettings(true)} className="text-[9px] font-mono font-bold uppercase tracking-widest opacity-50 hover:underline">SETTINGS</button>
+                    </div>
+                  </div>
+               )}
+
                <div className="space-y-4">
-                  {aiRecipes.map((recipe, idx) => (
-                    <button
-                      key={idx}
-                      onClick={() => applyRecipe(recipe)}
-                      className="w-full text-left p-4 border border-black hover:bg-black hover:text-white transition-colors duration-100"
-                    >
-                      <p className="text-[11px] font-display font-bold uppercase tracking-tight italic">{recipe.name}</p>
-                      <p className="text-[9px] font-mono mt-2 opacity-60 leading-tight line-clamp-2 uppercase">{recipe.description}</p>
-                    </button>
+                  {aiMode === 'REFINE' && aiRecipes.map(({ recipe, issues }, idx) => (
+                    <div key={idx} className="border border-black">
+                      <div className="p-4 space-y-3">
+                        <div>
+                          <p className="text-[11px] font-display font-bold uppercase tracking-tight italic">{recipe.name}</p>
+                          <p className="text-[9px] font-mono mt-2 opacity-60 leading-tight uppercase">{recipe.description}</p>
+                        </div>
+                        <RecipeDiff settings={layer} patch={recipe.settings} />
+                        {issues.length > 0 && (
+                          <p className="text-[8px] font-mono uppercase tracking-widest opacity-40" title={issues.join('\n')}>
+                            {issues.length} {issues.length === 1 ? 'value' : 'values'} corrected
+                          </p>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-2 border-t border-black">
+                        <button
+                          onClick={() => applyRecipe(recipe)}
+                          className="py-2 text-[9px] font-mono font-bold uppercase tracking-widest border-r border-black hover:bg-black hover:text-white transition-colors"
+                        >APPLY</button>
+                        <button
+                          onClick={() => saveRecipeToLibrary(recipe)}
+                          disabled={savedRecipes.has(recipe)}
+                          className="py-2 text-[9px] font-mono font-bold uppercase tracking-widest hover:bg-black hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-black"
+                        >{savedRecipes.has(recipe) ? 'SAVED' : 'SAVE'}</button>
+                      </div>
+                    </div>
+                  ))}
+                  {aiMode === 'NEW' && aiRecipes.map(({ recipe, issues }, idx) => (
+                    <div key={idx} className="flex items-stretch border border-black">
+                      <button
+                        onClick={() => applyRecipe(recipe)}
+                        className="flex-1 text-left p-4 min-w-0 hover:bg-black hover:text-white transition-colors duration-100"
+                      >
+                        <p className="text-[11px] font-display font-bold uppercase tracking-tight italic">{recipe.name}</p>
+                        <p className="text-[9px] font-mono mt-2 opacity-60 leading-tight line-clamp-2 uppercase">{recipe.description}</p>
+                        {issues.length > 0 && (
+                          <p className="text-[8px] font-mono mt-2 uppercase tracking-widest opacity-40" title={issues.join('\n')}>
+                            {issues.length} {issues.length === 1 ? 'value' : 'values'} corrected
+                          </p>
+                        )}
+                      </button>
+                      <button
+                        onClick={() => saveRecipeToLibrary(recipe)}
+                        disabled={savedRecipes.has(recipe)}
+                        title="Save to library"
+                        className="px-3 border-l border-black text-[9px] font-mono font-bold uppercase tracking-widest hover:bg-black hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-black"
+                      >{savedRecipes.has(recipe) ? 'SAVED' : 'SAVE'}</button>
+                    </div>
                   ))}
                </div>
             </section>
@@ -406,9 +1070,31 @@ const App: React.FC = () => {
 
         {/* Fixed Download / Copy Actions */}
         <div className="p-6 border-t-4 border-black bg-white flex flex-col gap-3">
+          <div className="flex justify-between items-center">
+            <label 
+              onMouseEnter={(e) => handleLabelEnter(e, "Export only the grain particles on a transparent background, to drop over artwork as a layer. Blend with your layer mode there.")}
+              onMouseLeave={() => setActiveTooltip(null)}
+              className="text-[9px] font-mono uppercase tracking-widest opacity-50 cursor-help border-b border-dotted border-zinc-300 hover:text-black hover:opacity-100 transition-all"
+            >
+              Background
+            </label>
+            <div className="flex border border-black">
+              <button 
+                onClick={() => setExportOptions(o => ({ ...o, transparent: false }))}
+                className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${!exportOptions.transparent ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+              >FILLED</button>
+              <button 
+                onClick={() => setExportOptions(o => ({ ...o, transparent: true }))}
+                className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${exportOptions.transparent ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+              >TRANSPARENT</button>
+            </div>
+          </div>
+
           <button 
             onClick={handleCopyImage}
-            className={`w-full font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 border-2 border-black transition-all active:scale-[0.98] flex items-center justify-center gap-2 ${
+            disabled={exporting || isLargeFormat(settings)}
+            title={isLargeFormat(settings) ? `Copy is limited to ${APP_LIMITS.MAX_DIMENSION} px; use EXPORT for larger sizes` : undefined}
+            className={`w-full font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 border-2 border-black transition-all active:scale-[0.98] disabled:opacity-30 flex items-center justify-center gap-2 ${
               imageCopied 
                 ? 'bg-zinc-800 text-white border-zinc-800' 
                 : 'bg-white text-black hover:bg-zinc-50'
@@ -423,24 +1109,97 @@ const App: React.FC = () => {
                'COPY TO CLIPBOARD'
              )}
           </button>
+
+          <button 
+            onClick={() => setShowAnimation(true)}
+            disabled={exporting}
+            className="w-full bg-white text-black font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 hover:bg-zinc-50 border-2 border-black transition-all active:scale-[0.98] disabled:opacity-30"
+          >
+            ANIMATE…
+          </button>
           
           <button 
-            onClick={handleDownload}
-            className="w-full bg-black text-white font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 hover:bg-white hover:text-black border-2 border-black transition-all active:scale-[0.98]"
+            onClick={() => setShowExportDialog(true)}
+            disabled={exporting}
+            className="w-full bg-black text-white font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 hover:bg-white hover:text-black border-2 border-black transition-all active:scale-[0.98] disabled:opacity-50"
           >
-            EXPORT PNG
+            {exporting ? 'RENDERING...' : 'EXPORT…'}
           </button>
         </div>
       </aside>
 
       {/* Main Viewport */}
-      <main className="flex-1 flex flex-col relative bg-white">
+      <main 
+        className="flex-1 flex flex-col relative bg-white"
+        onDragOver={e => { e.preventDefault(); setIsDraggingFile(true); }}
+        onDragLeave={e => { if (e.currentTarget === e.target) setIsDraggingFile(false); }}
+        onDrop={handleDrop}
+      >
+        {isDraggingFile && (
+          <div className="absolute inset-6 z-30 border-4 border-dashed border-black bg-white/80 flex items-center justify-center pointer-events-none">
+            <span className="font-mono text-[11px] font-bold uppercase tracking-[0.3em]">Drop PNG / JPEG / WebP as base layer · Grainy PNGs and recipe files restore their settings</span>
+          </div>
+        )}
         <header className="h-24 border-b border-black flex items-center justify-between px-16 z-10 bg-white/80 backdrop-blur-md">
            <div className="flex items-center gap-16 font-mono text-[11px] font-bold tracking-[0.3em] uppercase">
               <span className="flex items-center gap-3">
                 <div className="w-2 h-2 bg-black rotate-45"></div>
                 Live Preview
               </span>
+              <button 
+                onClick={() => setShowRepeat(r => !r)}
+                className={`px-3 py-1 border border-black text-[9px] tracking-[0.2em] transition-colors ${showRepeat ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+                title="Preview the texture repeated 3×3 to check tile seams"
+              >
+                REPEAT 3×3
+              </button>
+              <div className="flex items-center border border-black text-[9px] tracking-[0.2em]">
+                <button 
+                  onClick={() => imageInputRef.current?.click()}
+                  className="px-3 py-1 hover:bg-zinc-100 transition-colors"
+                  title="Render the grain over a PNG, JPEG or WebP image"
+                >
+                  {baseImage ? 'REPLACE IMAGE' : 'OPEN IMAGE'}
+                </button>
+                {baseImage && (
+                  <button 
+                    onClick={() => setBaseImage(null)}
+                    className="px-3 py-1 border-l border-black hover:bg-zinc-100 transition-colors"
+                    title={`Remove ${baseImage.name} and use the flat background color`}
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+              <input 
+                ref={imageInputRef}
+                type="file"
+                accept={IMPORT_IMAGE_TYPES.join(',')}
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImageFile(file);
+                  e.target.value = '';
+                }}
+              />
+              <button 
+                onClick={() => scanInputRef.current?.click()}
+                className="px-3 py-1 border border-black text-[9px] tracking-[0.2em] hover:bg-zinc-100 transition-colors"
+                title="Estimate grain settings from a scanned film frame or paper sample"
+              >
+                MATCH SCAN
+              </button>
+              <input 
+                ref={scanInputRef}
+                type="file"
+                accept={IMPORT_IMAGE_TYPES.join(',')}
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) setScanFile(file);
+                  e.target.value = '';
+                }}
+              />
            </div>
            
            <div className="font-mono text-[11px] uppercase font-bold tracking-[0.2em] bg-black text-white px-6 py-2">
@@ -449,9 +1208,81 @@ const App: React.FC = () => {
         </header>
 
         <div className="flex-1 p-24 flex items-center justify-center overflow-hidden">
-           <GrainCanvas settings={settings} onCanvasReady={onCanvasReady} />
+           <GrainCanvas
+             settings={settings}
+             onCanvasReady={onCanvasReady}
+             showRepeat={showRepeat}
+             baseImage={baseImage}
+             overlay={paintingMask && (
+               <MaskPainter
+                 mask={layer.mask}
+                 width={settings.width}
+                 height={settings.height}
+                 brush={maskBrush}
+                 onCommit={painted => updateSetting('mask', { ...layer.mask, painted })}
+               />
+             )}
+           />
         </div>
       </main>
+
+      {showExportDialog && (
+        <ExportDialog
+          settings={settings}
+          options={exportOptions}
+          exporting={exporting}
+          progress={exportProgress}
+          onChange={setExportOptions}
+          onExport={handleDownload}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
+
+      {showAnimation && (
+        <AnimationDialog
+          settings={settings}
+          baseImage={baseImage}
+          options={animationOptions}
+          onChange={setAnimationOptions}
+          onClose={() => setShowAnimation(false)}
+        />
+      )}
+
+      {showVariations && (
+        <VariationsDialog
+          settings={settings}
+          baseImage={baseImage}
+          onApply={variation => {
+            setSettings(variation);
+            setShowVariations(false);
+          }}
+          onClose={() => setShowVariations(false)}
+        />
+      )}
+
+      {scanFile && (
+        <ScanMatchDialog
+          file={scanFile}
+          settings={layer}
+          onApply={patch => {
+            setSettings(prev => applyLayerPatch(prev, layerIndex, patch));
+            setScanFile(null);
+          }}
+          onClose={() => setScanFile(null)}
+        />
+      )}
+
+      {showAISettings && (
+        <AISettingsDialog
+          config={aiConfig}
+          onSave={config => {
+            setAiConfig(config);
+            saveProviderConfig(config);
+            setShowAISettings(false);
+          }}
+          onClose={() => setShowAISettings(false)}
+        />
+      )}
     </div>
   );
 };
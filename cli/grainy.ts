@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+// Command-line renderer: the same seeded engine as the browser, encoded strip by strip,
+// so a recipe renders pixel-for-pixel what GrainCanvas shows at the same size.
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, extname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { GrainSettings } from '../types';
+import { ENGINE_VERSION } from '../engine/grainEngine';
+import { StreamedEncoding, encodeStrips } from '../engine/stripEncoder';
+import { createRecipeText, readEmbeddedRecipe, readRecipeFile, validateSettings } from '../services/recipeService';
+
+const USAGE = `Usage:
+  grainy render --recipe <file> --out <file.png|.tif> [options]
+  grainy batch --manifest <file.json> [--clamp]
+
+Render options:
+  --recipe <file>        .grainy.json recipe or a PNG exported from Grainy
+  --out <file>           output path; .png or .tif / .tiff
+  --width <px>           override the recipe width
+  --height <px>          override the recipe height
+  --ppi <n>              override the print resolution
+  --seed <n>             override the seed
+  --transparent          grain only, on a transparent background
+  --compression <mode>   TIFF compression: none or lzw (default lzw)
+  --clamp                render out-of-range values clamped to APP_LIMITS instead of failing
+
+Manifest:
+  { "defaults": { ...settings }, "renders": [{ "recipe": "brand.grainy.json", "out": "a4.png",
+    "settings": { "width": 2480, "height": 3508, "ppi": 300 }, "transparent": false }] }
+  Paths are relative to the manifest. Each render's settings override the defaults.
+
+Exit codes: 0 rendered, 1 a render or its settings failed, 2 bad command line.`;
+
+class UsageError extends Error {}
+
+interface RenderJob {
+  recipe: string;
+  out: string;
+  // Overrides applied on top of the recipe, checked against APP_LIMITS like the recipe itself
+  overrides: Record<string, unknown>;
+  transparent: boolean;
+  compression: 'none' | 'lzw';
+}
+
+// Recipe settings from a .grainy.json file or the recipe embedded in a Grainy PNG
+const loadRecipe = async (path: string) => {
+  const file = new Blob([await readFile(path)]);
+  if (extname(path).toLowerCase() === '.png') {
+    const embedded = await readEmbeddedRecipe(file);
+    if (!embedded) throw new Error(`${path} has no Grainy recipe embedded.`);
+    if (embedded.engineVersion !== ENGINE_VERSION) {
+      console.warn(`${path}: saved by engine v${embedded.engineVersion}; rendering with v${ENGINE_VERSION} may differ slightly.`);
+    }
+    return { settings: embedded.settings, issues: [] as string[] };
+  }
+  const { recipe, issues } = await readRecipeFile(file);
+  return { settings: recipe.settings, issues };
+};
+
+const getFormat = (out: string): StreamedEncoding['format'] => {
+  const extension = extname(out).toLowerCase();
+  if (extension === '.png') return 'PNG';
+  if (extension === '.tif' || extension === '.tiff') return 'TIFF';
+  throw new UsageError(`Cannot write "${extension || out}": use .png or .tif.`);
+};
+
+// Settings outside APP_LIMITS fail the render unless `clamp` is set, in which case they're
+// corrected the same way the app corrects them and reported as warnings
+const resolveSettings = async (job: RenderJob, clamp: boolean): Promise<GrainSettings> => {
+  const recipe = await loadRecipe(job.recipe);
+  const { settings, issues } = validateSettings(job.overrides, recipe.settings);
+  const problems = [...recipe.issues, ...issues];
+  if (problems.length && !clamp) {
+    throw new Error(`${job.recipe}: settings outside APP_LIMITS:\n  ${problems.join('\n  ')}\nFix them, or pass --clamp to render the corrected values.`);
+  }
+  problems.forEach(problem => console.warn(`${job.recipe}: ${problem}`));
+  return settings;
+};
+
+const render = async (job: RenderJob, clamp: boolean) => {
+  const format = getFormat(job.out);
+  const settings = await resolveSettings(job, clamp);
+  const started = Date.now();
+  const parts = await encodeStrips(settings, { transparent: job.transparent }, {
+    format,
+    tiffCompression: job.compression === 'none' ? 'NONE' : 'LZW',
+    text: createRecipeText(settings),
+  });
+  await mkdir(dirname(job.out), { recursive: true });
+  await writeFile(job.out, parts);
+  const seconds = ((Date.now() - started) / 1000).toFixed(1);
+  console.log(`${job.out}  ${settings.width}×${settings.height} px  ${settings.ppi} PPI  ${settings.texture}  seed ${settings.seed}  (${seconds} s)`);
+};
+
+// Numeric flags are passed through as numbers so validateSettings can range-check them
+const toNumber = (flag: string, value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new UsageError(`--${flag} must be a number, got "${value}".`);
+  return number;
+};
+
+const toCompression = (value: unknown): RenderJob['compression'] => {
+  if (value === undefined || value === 'lzw') return 'lzw';
+  if (value === 'none') return 'none';
+  throw new UsageError(`Compression must be "none" or "lzw", got "${String(value)}".`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readManifest = async (path: string): Promise<RenderJob[]> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf8'));
+  } catch (err) {
+    throw new Error(`${path} is not valid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+  const root = dirname(path);
+  const manifest = Array.isArray(parsed) ? { renders: parsed } : parsed;
+  if (!isRecord(manifest) || !Array.isArray(manifest.renders)) throw new Error(`${path} has no "renders" list.`);
+  const defaults = isRecord(manifest.defaults) ? manifest.defaults : {};
+
+  return manifest.renders.map((entry, i) => {
+    if (!isRecord(entry) || typeof entry.recipe !== 'string' || typeof entry.out !== 'string') {
+      throw new Error(`${path}: render ${i + 1} needs "recipe" and "out" paths.`);
+    }
+    return {
+      recipe: resolve(root, entry.recipe),
+      out: resolve(root, entry.out),
+      overrides: { ...defaults, ...(isRecord(entry.settings) ? entry.settings : {}) },
+      transparent: entry.transparent === true,
+      compression: toCompression(entry.compression),
+    };
+  });
+};
+
+const OPTIONS = {
+  recipe: { type: 'string' },
+  out: { type: 'string' },
+  manifest: { type: 'string' },
+  width: { type: 'string' },
+  height: { type: 'string' },
+  ppi: { type: 'string' },
+  seed: { type: 'string' },
+  transparent: { type: 'boolean', default: false },
+  compression: { type: 'string' },
+  clamp: { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+const main = async (argv: string[]) => {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, allowPositionals: true, options: OPTIONS });
+  } catch (err) {
+    // Unknown flags and missing values
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { positionals, values } = parsed;
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (command === 'render') {
+    if (!values.recipe || !values.out) throw new UsageError('render needs --recipe and --out.');
+    const overrides = Object.fromEntries(
+      (['width', 'height', 'ppi', 'seed'] as const)
+        .map(flag => [flag, toNumber(flag, values[flag])] as const)
+        .filter(([, value]) => value !== undefined)
+    );
+    await render({
+      recipe: values.recipe,
+      out: values.out,
+      overrides,
+      transparent: values.transparent,
+      compression: toCompression(values.compression),
+    }, values.clamp);
+    return 0;
+  }
+
+  if (command === 'batch') {
+    if (!values.manifest) throw new UsageError('batch needs --manifest.');
+    const jobs = await readManifest(values.manifest);
+    // Keep going after a failed render so one bad recipe doesn't hold up the rest
+    let failed = 0;
+    for (const job of jobs) {
+      try {
+        await render(job, values.clamp);
+      } catch (err) {
+        failed++;
+        console.error(err instanceof Error ? err.message : err);
+      }
+    }
+    console.log(`${jobs.length - failed} of ${jobs.length} rendered.`);
+    return failed ? 1 : 0;
+  }
+
+  throw new UsageError(`Unknown command "${command}".`);
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  err => {
+    console.error(err instanceof Error ? err.message : err);
+    if (err instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exitCode = err instanceof UsageError ? 2 : 1;
+  }
+);
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { createGifPalette, createGifWriter } from './gif';
+import { concat } from './bytes';
+import { createRandom } from '../engine/random';
+
+// Reference GIF LZW decoder for 8-bit codes: LSB-first, width grows once the table fills it
+const lzwDecode = (input: Uint8Array) => {
+  const out: number[] = [];
+  let table: number[][] = [];
+  let width = 9;
+  let prev: number[] | null = null;
+  let accumulator = 0;
+  let bits = 0;
+  let i = 0;
+  const reset = () => {
+    table = Array.from({ length: 256 }, (_, k) => [k]);
+    table.length = 258;
+    width = 9;
+    prev = null;
+  };
+  reset();
+  for (;;) {
+    while (bits < width) {
+      accumulator |= (input[i++] ?? 0) << bits;
+      bits += 8;
+    }
+    const code = accumulator & ((1 << width) - 1);
+    accumulator >>>= width;
+    bits -= width;
+    if (code === 256) {
+      reset();
+      continue;
+    }
+    if (code === 257) break;
+    if (!prev) {
+      out.push(...table[code]);
+      prev = table[code];
+      continue;
+    }
+    const entry: number[] = code < table.length ? table[code] : [...prev, prev[0]];
+    out.push(...entry);
+    if (table.length < 4096) table.push([...prev, entry[0]]);
+    prev = entry;
+    if (table.length === 1 << width && width < 12) width++;
+  }
+  return out;
+};
+
+// Logical screen, global palette and the index data of every frame with its delay
+const readGif = (gif: Uint8Array) => {
+  const view = new DataView(gif.buffer, gif.byteOffset, gif.byteLength);
+  const frames: { delay: number; indices: number[] }[] = [];
+  let delay = 0;
+  let at = 13 + 768;
+  for (;;) {
+    const block = gif[at];
+    if (block === 0x3b) break;
+    if (block === 0x21) {
+      if (gif[at + 1] === 0xf9) delay = view.getUint16(at + 4, true);
+      at += 2;
+      while (gif[at]) at += gif[at] + 1;
+      at++;
+      continue;
+    }
+    expect(block).toBe(0x2c);
+    at += 10;
+    expect(gif[at++]).toBe(8);
+    const data: number[] = [];
+    while (gif[at]) {
+      data.push(...gif.subarray(at + 1, at + 1 + gif[at]));
+      at += gif[at] + 1;
+    }
+    at++;
+    frames.push({ delay, indices: lzwDecode(Uint8Array.from(data)) });
+  }
+  expect(at).toBe(gif.length - 1);
+  return {
+    signature: String.fromCharCode(...gif.subarray(0, 6)),
+    width: view.getUint16(6, true),
+    height: view.getUint16(8, true),
+    palette: gif.subarray(13, 13 + 768),
+    frames,
+  };
+};
+
+// Noise over a few flat colors, so the palette can hold every one of them exactly
+const COLORS = [
+  [0, 0, 0],
+  [255, 255, 255],
+  [200, 40, 90],
+  [10, 120, 190],
+  [128, 128, 128],
+];
+const noise = (width: number, height: number, seed: number) => {
+  const random = createRandom(seed);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(COLORS[Math.floor(random() * COLORS.length)], i);
+    data[i + 3] = 255;
+  }
+  return { width, height, data };
+};
+
+describe('createGifPalette', () => {
+  it('keeps every color of an image with few of them', () => {
+    const palette = createGifPalette([noise(32, 32, 1)]);
+    const entries = Array.from({ length: 256 }, (_, i) => Array.from(palette.subarray(i * 3, i * 3 + 3)));
+    for (const color of COLORS) expect(entries).toContainEqual(color);
+  });
+});
+
+describe('createGifWriter', () => {
+  it('writes a looping GIF89a whose frames decode to the original colors', () => {
+    const frames = [noise(160, 120, 1), noise(160, 120, 2)];
+    const writer = createGifWriter(160, 120, createGifPalette(frames));
+    frames.forEach(frame => writer.addFrame(frame, 4));
+    const gif = readGif(concat(writer.close()));
+
+    expect(gif.signature).toBe('GIF89a');
+    expect([gif.width, gif.height]).toEqual([160, 120]);
+    expect(gif.frames).toHaveLength(2);
+    gif.frames.forEach(({ delay, indices }, f) => {
+      expect(delay).toBe(4);
+      const rgb = indices.flatMap(index => Array.from(gif.palette.subarray(index * 3, index * 3 + 3)));
+      expect(rgb).toEqual(Array.from(frames[f].data).filter((_, i) => i % 4 !== 3));
+    });
+  });
+
+  it('refuses sizes the format cannot store', () => {
+    expect(() => createGifWriter(70000, 1, new Uint8Array(768))).toThrow('65535');
+  });
+});
@@ -0,0 +1,184 @@
+import { concat } from './bytes';
+import type { GrainBuffer } from '../engine/grainEngine';
+
+// RGB triplets, at most 256
+export type GifPalette = Uint8Array;
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+// Median cut over a sample of the pixels: split the box with the widest channel at its median
+// until there are `size` boxes, then use each box's average color
+export const createGifPalette = (samples: GrainBuffer[], size = 256): GifPalette => {
+  const pixels: number[] = [];
+  for (const { data } of samples) {
+    const stride = Math.max(1, Math.floor(data.length / 4 / 65536));
+    for (let i = 0; i < data.length; i += stride * 4) pixels.push((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+  }
+  const channel = (color: number, c: number) => (color >> (16 - c * 8)) & 0xff;
+  const widest = (box: number[]) => {
+    let best = { channel: 0, range: -1 };
+    for (let c = 0; c < 3; c++) {
+      let min = 255;
+      let max = 0;
+      for (const color of box) {
+        const v = channel(color, c);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      if (max - min > best.range) best = { channel: c, range: max - min };
+    }
+    return best;
+  };
+
+  let boxes = [pixels];
+  while (boxes.length < size) {
+    const ranked = boxes.map(box => ({ box, ...widest(box) })).filter(b => b.range > 0 && b.box.length > 1);
+    if (ranked.length === 0) break;
+    const { box, channel: c } = ranked.reduce((a, b) => (b.range * b.box.length > a.range * a.box.length ? b : a));
+    box.sort((x, y) => channel(x, c) - channel(y, c));
+    const middle = box.length >> 1;
+    boxes = boxes.filter(b => b !== box).concat([box.slice(0, middle), box.slice(middle)]);
+  }
+
+  const palette = new Uint8Array(size * 3);
+  boxes.forEach((box, i) => {
+    for (let c = 0; c < 3; c++) {
+      palette[i * 3 + c] = box.length ? Math.round(box.reduce((sum, color) => sum + channel(color, c), 0) / box.length) : 0;
+    }
+  });
+  return palette;
+};
+
+// Nearest palette entry per pixel, cached on 5 bits per channel since grain has few distinct colors
+const createIndexer = (palette: GifPalette) => {
+  const cache = new Int16Array(32768).fill(-1);
+  const entries = palette.length / 3;
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < entries; i++) {
+      const dr = r - palette[i * 3];
+      const dg = g - palette[i * 3 + 1];
+      const db = b - palette[i * 3 + 2];
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+// GIF flavour of LZW: LSB-first codes growing from 9 to 12 bits, emitted in sub-blocks of up to 255 bytes
+const lzwEncode = (indices: Uint8Array): Uint8Array => {
+  const MIN_CODE_SIZE = 8;
+  const CLEAR = 1 << MIN_CODE_SIZE;
+  const EOI = CLEAR + 1;
+  const bytes: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let maxCode = (1 << codeSize) - 1;
+  let nextCode = EOI + 1;
+  let clearing = false;
+  let table = new Map<number, number>();
+
+  // Same order as the reference encoder: the width grows after writing the first code past the limit
+  const emit = (code: number) => {
+    accumulator |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(accumulator & 0xff);
+      accumulator >>>= 8;
+      bits -= 8;
+    }
+    if (clearing) {
+      codeSize = MIN_CODE_SIZE + 1;
+      maxCode = (1 << codeSize) - 1;
+      clearing = false;
+    } else if (nextCode > maxCode) {
+      codeSize++;
+      maxCode = codeSize === 12 ? 4096 : (1 << codeSize) - 1;
+    }
+  };
+
+  emit(CLEAR);
+  let prefix = indices[0] ?? 0;
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    prefix = index;
+    if (nextCode < 4096) {
+      table.set(key, nextCode++);
+    } else {
+      table = new Map();
+      nextCode = EOI + 1;
+      clearing = true;
+      emit(CLEAR);
+    }
+  }
+  emit(prefix);
+  emit(EOI);
+  if (bits > 0) bytes.push(accumulator & 0xff);
+
+  const blocks: number[] = [MIN_CODE_SIZE];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Uint8Array.from(blocks);
+};
+
+export interface GifWriter {
+  // Appends a frame shown for `delay` hundredths of a second
+  addFrame: (frame: GrainBuffer, delay: number) => void;
+  // Returns the finished file as a list of parts, ready for a Blob
+  close: () => Uint8Array[];
+}
+
+// Animated GIF with one global palette, looping forever. Frames are encoded as they are
+// added, so only the compressed data is kept.
+export const createGifWriter = (width: number, height: number, palette: GifPalette): GifWriter => {
+  if (width > 65535 || height > 65535) throw new Error('GIF is limited to 65535 px per side.');
+  const indexOf = createIndexer(palette);
+  const table = new Uint8Array(768);
+  table.set(palette.subarray(0, 768));
+
+  const screen = new Uint8Array(7);
+  const view = new DataView(screen.buffer);
+  view.setUint16(0, width, true);
+  view.setUint16(2, height, true);
+  screen[4] = 0xf7; // global color table, 8 bits per channel, 256 entries
+  // background index and pixel aspect ratio stay 0
+
+  // NETSCAPE2.0 application extension, loop count 0 = forever
+  const loop = concat([new Uint8Array([0x21, 0xff, 0x0b]), ascii('NETSCAPE2.0'), new Uint8Array([0x03, 0x01, 0x00, 0x00, 0x00])]);
+  const parts: Uint8Array[] = [ascii('GIF89a'), screen, table, loop];
+
+  return {
+    addFrame: ({ data }, delay) => {
+      const indices = new Uint8Array(width * height);
+      for (let i = 0, p = 0; i < indices.length; i++, p += 4) indices[i] = indexOf(data[p], data[p + 1], data[p + 2]);
+
+      const control = new Uint8Array([0x21, 0xf9, 0x04, 0x04, delay & 0xff, (delay >> 8) & 0xff, 0x00, 0x00]); // dispose: keep
+      const descriptor = new Uint8Array(10);
+      const dv = new DataView(descriptor.buffer);
+      descriptor[0] = 0x2c;
+      dv.setUint16(5, width, true);
+      dv.setUint16(7, height, true);
+      parts.push(control, descriptor, lzwEncode(indices));
+    },
+    close: () => [...parts, new Uint8Array([0x3b])],
+  };
+};
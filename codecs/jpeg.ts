@@ -0,0 +1,39 @@
+// JFIF APP0 segment declaring the density in dots per inch
+const createJfifSegment = (ppi: number) => {
+  const density = Math.min(65535, Math.max(1, Math.round(ppi)));
+  return new Uint8Array([
+    0xff, 0xe0, 0x00, 0x10, // APP0, length 16
+    0x4a, 0x46, 0x49, 0x46, 0x00, // "JFIF\0"
+    0x01, 0x01, // version 1.01
+    0x01, // units: dots per inch
+    density >> 8, density & 0xff,
+    density >> 8, density & 0xff,
+    0x00, 0x00, // no thumbnail
+  ]);
+};
+
+const isJfif = (jpeg: Uint8Array, offset: number) =>
+  jpeg[offset + 4] === 0x4a && jpeg[offset + 5] === 0x46 && jpeg[offset + 6] === 0x49 && jpeg[offset + 7] === 0x46 && jpeg[offset + 8] === 0x00;
+
+// Writes the print resolution into the JFIF header, adding one after SOI if the encoder left it out
+export const setJpegDensity = (jpeg: Uint8Array, ppi: number): Uint8Array => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) throw new Error('Not a JPEG file');
+
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0 && isJfif(jpeg, 2)) {
+    const out = jpeg.slice();
+    const density = Math.min(65535, Math.max(1, Math.round(ppi)));
+    out[13] = 0x01;
+    out[14] = density >> 8;
+    out[15] = density & 0xff;
+    out[16] = density >> 8;
+    out[17] = density & 0xff;
+    return out;
+  }
+
+  const segment = createJfifSegment(ppi);
+  const out = new Uint8Array(jpeg.length + segment.length);
+  out.set(jpeg.subarray(0, 2), 0);
+  out.set(segment, 2);
+  out.set(jpeg.subarray(2), 2 + segment.length);
+  return out;
+};
@@ -0,0 +1,47 @@
+// PackBits run-length coding (as in TIFF compression 32773): a header byte n of 0 to 127
+// copies the next n + 1 bytes, -1 to -127 repeats the next byte 1 - n times. Synchronous,
+// so it suits masks the engine has to read in the middle of a render.
+export const packBitsEncode = (input: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let i = 0;
+  while (i < input.length) {
+    let run = 1;
+    while (i + run < input.length && run < 128 && input[i + run] === input[i]) run++;
+    if (run > 1) {
+      out.push(257 - run, input[i]);
+      i += run;
+      continue;
+    }
+    // Literal stretch until the next run of three or more
+    let end = i + 1;
+    while (end < input.length && end - i < 128 && !(end + 2 < input.length && input[end] === input[end + 1] && input[end] === input[end + 2])) end++;
+    out.push(end - i - 1);
+    for (let k = i; k < end; k++) out.push(input[k]);
+    i = end;
+  }
+  return Uint8Array.from(out);
+};
+
+// Returns null when the data runs short or decodes to more than `length` bytes
+export const packBitsDecode = (input: Uint8Array, length: number): Uint8Array | null => {
+  const out = new Uint8Array(length);
+  let o = 0;
+  let i = 0;
+  while (i < input.length && o < length) {
+    const n = input[i++];
+    if (n < 128) {
+      const count = n + 1;
+      if (i + count > input.length || o + count > length) return null;
+      out.set(input.subarray(i, i + count), o);
+      i += count;
+      o += count;
+    } else if (n > 128) {
+      const count = 257 - n;
+      if (i >= input.length || o + count > length) return null;
+      out.fill(input[i++], o, o + count);
+      o += count;
+    }
+    // 128 is a no-op
+  }
+  return o === length ? out : null;
+};
@@ -0,0 +1,93 @@
+import { inflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { encodePng, readPngText, setPngMetadata } from './png';
+import { crc32 } from './crc32';
+
+const gradient = (width: number, height: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = i % 251;
+    data[i + 1] = (i * 7) % 256;
+    data[i + 2] = 255 - (i % 256);
+    data[i + 3] = (i / 4) % 256;
+  }
+  return { width, height, data };
+};
+
+// Chunk types and payloads, checking every CRC on the way
+const readChunks = (png: Uint8Array) => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: { type: string; payload: Uint8Array }[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(png.subarray(offset + 4, offset + 8 + length)));
+    chunks.push({ type, payload: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+// Scanlines with filter 0, as the encoder writes them
+const decodePixels = (png: Uint8Array, channels: number) => {
+  const chunks = readChunks(png);
+  const header = new DataView(chunks[0].payload.buffer, chunks[0].payload.byteOffset);
+  const width = header.getUint32(0);
+  const height = header.getUint32(4);
+  const lines = inflateSync(Buffer.concat(chunks.filter(c => c.type === 'IDAT').map(c => c.payload)));
+  const pixels: number[] = [];
+  for (let y = 0; y < height; y++) {
+    const start = y * (1 + width * channels);
+    expect(lines[start]).toBe(0);
+    pixels.push(...lines.subarray(start + 1, start + 1 + width * channels));
+  }
+  return { width, height, pixels };
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('encodePng', () => {
+  it('round-trips RGBA pixels exactly', async () => {
+    const image = gradient(17, 9);
+    const png = await encodePng(image, { alpha: true });
+    const decoded = decodePixels(png, 4);
+    expect([decoded.width, decoded.height]).toEqual([17, 9]);
+    expect(decoded.pixels).toEqual(Array.from(image.data));
+  });
+
+  it('drops alpha for opaque RGB output', async () => {
+    const image = gradient(5, 4);
+    const decoded = decodePixels(await encodePng(image, { alpha: false }), 3);
+    expect(decoded.pixels).toEqual(Array.from(image.data).filter((_, i) => i % 4 !== 3));
+  });
+
+  it('writes the print resolution as pixels per metre', async () => {
+    const phys = readChunks(await encodePng(gradient(2, 2), { ppi: 300 })).find(c => c.type === 'pHYs')!;
+    const view = new DataView(phys.payload.buffer, phys.payload.byteOffset);
+    expect(view.getUint32(0)).toBe(Math.round(300 / 0.0254));
+    expect(phys.payload[8]).toBe(1);
+  });
+});
+
+describe('PNG text', () => {
+  it('reads back ASCII and UTF-8 entries', async () => {
+    const text = { Recipe: '{"seed":1}', Title: 'Körnung ✦' };
+    const png = await encodePng(gradient(2, 2), { text });
+    expect(await readPngText(png)).toEqual(text);
+  });
+
+  it('replaces existing entries when metadata is stamped again', async () => {
+    const png = await encodePng(gradient(2, 2), { text: { Recipe: 'old' } });
+    const stamped = setPngMetadata(png, { text: { Recipe: 'new' } });
+    expect(await readPngText(stamped)).toEqual({ Recipe: 'new' });
+    expect(readChunks(stamped).filter(c => c.type === 'tEXt')).toHaveLength(1);
+  });
+
+  it('returns nothing for files that are not PNGs', async () => {
+    expect(await readPngText(new Uint8Array([1, 2, 3]))).toEqual({});
+  });
+});
@@ -0,0 +1,188 @@
+import { crc32 } from './crc32';
+import { concat } from './bytes';
+import type { GrainBuffer } from '../engine/grainEngine';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const createChunk = (type: string, payload: Uint8Array) => {
+  const chunk = new Uint8Array(12 + payload.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, payload.length);
+  chunk.set(ascii(type), 4);
+  chunk.set(payload, 8);
+  view.setUint32(8 + payload.length, crc32(chunk.subarray(4, 8 + payload.length)));
+  return chunk;
+};
+
+// zlib decompression via the platform DecompressionStream, for compressed iTXt
+const inflate = async (bytes: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
+
+// pHYs chunk: pixels per metre on both axes, unit = metre
+const createPhysChunk = (ppi: number) => {
+  const payload = new Uint8Array(9);
+  const view = new DataView(payload.buffer);
+  const ppm = Math.round(ppi / 0.0254);
+  view.setUint32(0, ppm);
+  view.setUint32(4, ppm);
+  payload[8] = 1;
+  return createChunk('pHYs', payload);
+};
+
+// tEXt for printable ASCII values, uncompressed iTXt (UTF-8) for anything else
+const createTextChunk = (keyword: string, text: string) => {
+  if (/^[\x20-\x7e\n]*$/.test(text)) {
+    return createChunk('tEXt', concat([ascii(keyword), new Uint8Array([0]), ascii(text)]));
+  }
+  // keyword, null, compression flag, method, empty language tag, empty translated keyword
+  return createChunk('iTXt', concat([ascii(keyword), new Uint8Array(5), new TextEncoder().encode(text)]));
+};
+
+// Rebuilds a PNG file with extra chunks right after IHDR, dropping existing chunks of the same types
+const insertChunks = (png: Uint8Array, chunks: Uint8Array[]) => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const replaced = new Set(chunks.map(chunk => String.fromCharCode(...chunk.subarray(4, 8))));
+  const parts: Uint8Array[] = [PNG_SIGNATURE];
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (!replaced.has(type)) parts.push(png.subarray(offset, end));
+    if (type === 'IHDR') parts.push(...chunks);
+    offset = end;
+  }
+  return concat(parts);
+};
+
+const isPng = (png: Uint8Array) => png.length >= 8 && PNG_SIGNATURE.every((byte, i) => png[i] === byte);
+
+export interface PngMetadata {
+  // Print resolution written as a pHYs chunk
+  ppi?: number;
+  // Keyword / value pairs written as tEXt or iTXt chunks
+  text?: Record<string, string>;
+}
+
+const createMetadataChunks = ({ ppi, text = {} }: PngMetadata) => [
+  ...(ppi ? [createPhysChunk(ppi)] : []),
+  ...Object.entries(text).map(([keyword, value]) => createTextChunk(keyword, value)),
+];
+
+// Stamps resolution and text into an existing PNG (e.g. one from canvas.toBlob)
+export const setPngMetadata = (png: Uint8Array, metadata: PngMetadata) => insertChunks(png, createMetadataChunks(metadata));
+
+// Collects tEXt and iTXt entries by keyword; compressed iTXt values are inflated
+export const readPngText = async (png: Uint8Array): Promise<Record<string, string>> => {
+  const text: Record<string, string> = {};
+  if (!isPng(png)) return text;
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const latin1 = new TextDecoder('latin1');
+  const utf8 = new TextDecoder();
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const payload = png.subarray(offset + 8, Math.min(offset + 8 + length, png.length));
+    offset += 12 + length;
+    if (type === 'IEND') break;
+    if (type !== 'tEXt' && type !== 'iTXt') continue;
+
+    const keywordEnd = payload.indexOf(0);
+    if (keywordEnd < 1) continue;
+    const keyword = latin1.decode(payload.subarray(0, keywordEnd));
+    if (type === 'tEXt') {
+      text[keyword] = latin1.decode(payload.subarray(keywordEnd + 1));
+      continue;
+    }
+
+    const compressed = payload[keywordEnd + 1] === 1;
+    const languageEnd = payload.indexOf(0, keywordEnd + 3);
+    const translatedEnd = languageEnd < 0 ? -1 : payload.indexOf(0, languageEnd + 1);
+    if (translatedEnd < 0) continue;
+    const value = payload.subarray(translatedEnd + 1);
+    try {
+      text[keyword] = utf8.decode(compressed ? await inflate(value) : value);
+    } catch {
+      // Skip entries that don't decompress rather than rejecting the whole file
+    }
+  }
+  return text;
+};
+
+export interface PngOptions extends PngMetadata {
+  // Keep the alpha channel (RGBA) instead of writing opaque RGB
+  alpha?: boolean;
+}
+
+export interface PngWriter {
+  // Appends the next rows of the image, top to bottom
+  write: (rows: GrainBuffer) => Promise<void>;
+  // Finishes the file and returns it as a list of chunks, ready for a Blob
+  close: () => Promise<Uint8Array[]>;
+}
+
+// Streams straight (non-premultiplied) RGBA rows through the platform CompressionStream
+// (browsers, Workers and Node 18+), emitting an IDAT chunk per compressed block, so the
+// whole image never has to sit in memory at once
+export const createPngWriter = (width: number, height: number, { alpha = true, ...metadata }: PngOptions = {}): PngWriter => {
+  const channels = alpha ? 4 : 3;
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = alpha ? 6 : 2; // RGBA or RGB
+  // compression, filter and interlace methods all 0
+
+  const parts: Uint8Array[] = [PNG_SIGNATURE, createChunk('IHDR', header), ...createMetadataChunks(metadata)];
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+  // Drained alongside the writes so backpressure never stalls them
+  const draining = (async () => {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      parts.push(createChunk('IDAT', value));
+    }
+  })();
+
+  return {
+    write: async ({ height: rows, data }) => {
+      const lines = new Uint8Array(rows * (1 + width * channels)); // filter byte 0 (None) per row
+      for (let y = 0, o = 0; y < rows; y++) {
+        o++;
+        const row = data.subarray(y * width * 4, (y + 1) * width * 4);
+        if (alpha) {
+          lines.set(row, o);
+          o += row.length;
+          continue;
+        }
+        for (let x = 0; x < width; x++, o += 3) {
+          lines[o] = row[x * 4];
+          lines[o + 1] = row[x * 4 + 1];
+          lines[o + 2] = row[x * 4 + 2];
+        }
+      }
+      await writer.write(lines);
+    },
+    close: async () => {
+      await writer.close();
+      await draining;
+      parts.push(createChunk('IEND', new Uint8Array(0)));
+      return parts;
+    },
+  };
+};
+
+// Encodes a whole buffer without a canvas round trip, so low-alpha grain keeps its exact color
+export const encodePng = async (buffer: GrainBuffer, options: PngOptions = {}): Promise<Uint8Array> => {
+  const writer = createPngWriter(buffer.width, buffer.height, options);
+  await writer.write(buffer);
+  return concat(await writer.close());
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { encodeTiff, lzwEncode } from './tiff';
+import { createRandom } from '../engine/random';
+
+// Reference TIFF LZW decoder, with libtiff's early change of code width
+const lzwDecode = (input: Uint8Array) => {
+  const out: number[] = [];
+  let table: number[][] = [];
+  let width = 9;
+  let prev: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let i = 0;
+  const reset = () => {
+    table = Array.from({ length: 256 }, (_, k) => [k]);
+    table.length = 258;
+    width = 9;
+    prev = null;
+  };
+  reset();
+  for (;;) {
+    while (bitCount < width) {
+      bitBuffer = ((bitBuffer << 8) | (input[i++] ?? 0)) >>> 0;
+      bitCount += 8;
+    }
+    bitCount -= width;
+    const code = (bitBuffer >>> bitCount) & ((1 << width) - 1);
+    bitBuffer &= (1 << bitCount) - 1;
+    if (code === 256) {
+      reset();
+      continue;
+    }
+    if (code === 257) break;
+    if (!prev) {
+      out.push(...table[code]);
+      prev = table[code];
+      continue;
+    }
+    const entry: number[] = code < table.length ? table[code] : [...prev, prev[0]];
+    out.push(...entry);
+    table.push([...prev, entry[0]]);
+    prev = entry;
+    if (table.length >= (1 << width) - 1 && width < 12) width++;
+  }
+  return Uint8Array.from(out);
+};
+
+const gradient = (width: number, height: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i++) data[i] = (i * 31 + (i >> 7)) % 256;
+  return { width, height, data };
+};
+
+// Strip offsets and sizes plus the scalar tags of the first IFD
+const readTiff = (tiff: Uint8Array) => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const ifd = view.getUint32(4, true);
+  const tags = new Map<number, number[]>();
+  for (let e = 0; e < view.getUint16(ifd, true); e++) {
+    const at = ifd + 2 + e * 12;
+    const type = view.getUint16(at + 2, true);
+    if (type === 2) continue; // ASCII
+    const count = view.getUint32(at + 4, true);
+    const unit = type === 3 ? 2 : 4;
+    const values = type === 5 ? count * 2 : count;
+    const base = values * unit > 4 ? view.getUint32(at + 8, true) : at + 8;
+    tags.set(
+      view.getUint16(at, true),
+      Array.from({ length: values }, (_, k) => (unit === 2 ? view.getUint16(base + k * 2, true) : view.getUint32(base + k * 4, true)))
+    );
+  }
+  return { header: Array.from(tiff.subarray(0, 4)), tags };
+};
+
+const stripBytes = (tiff: Uint8Array, decode: (strip: Uint8Array) => Uint8Array) => {
+  const { tags } = readTiff(tiff);
+  const offsets = tags.get(273)!;
+  const counts = tags.get(279)!;
+  return offsets.flatMap((offset, k) => Array.from(decode(tiff.subarray(offset, offset + counts[k]))));
+};
+
+describe('lzwEncode', () => {
+  it('round-trips through code width changes and table resets', () => {
+    const random = createRandom(3);
+    // Noise fills the table quickly, runs exercise long entries
+    const input = Uint8Array.from({ length: 60000 }, (_, i) => (i % 5000 < 2500 ? Math.floor(random() * 256) : i % 7));
+    expect(lzwDecode(lzwEncode(input))).toEqual(input);
+  });
+
+  it('handles empty and single-byte input', () => {
+    expect(lzwDecode(lzwEncode(new Uint8Array()))).toEqual(new Uint8Array());
+    expect(lzwDecode(lzwEncode(Uint8Array.of(9)))).toEqual(Uint8Array.of(9));
+  });
+
+  it('compresses flat data', () => {
+    expect(lzwEncode(new Uint8Array(10000).fill(128)).length).toBeLessThan(500);
+  });
+});
+
+describe('encodeTiff', () => {
+  it('writes a little-endian baseline header and tags', () => {
+    const { header, tags } = readTiff(encodeTiff(gradient(6, 4), { ppi: 300, alpha: true }));
+    expect(header).toEqual([0x49, 0x49, 42, 0]);
+    expect(tags.get(256)).toEqual([6]);
+    expect(tags.get(257)).toEqual([4]);
+    expect(tags.get(258)).toEqual([8, 8, 8, 8]);
+    expect(tags.get(259)).toEqual([5]);
+    expect(tags.get(277)).toEqual([4]);
+    expect(tags.get(282)).toEqual([30000, 100]);
+    expect(tags.get(338)).toEqual([2]);
+  });
+
+  it('stores RGB pixels across several LZW strips', () => {
+    const image = gradient(200, 250);
+    const tiff = encodeTiff(image);
+    expect(readTiff(tiff).tags.get(273)!.length).toBeGreaterThan(1);
+    expect(stripBytes(tiff, lzwDecode)).toEqual(Array.from(image.data).filter((_, i) => i % 4 !== 3));
+  });
+
+  it('stores raw RGBA strips without compression', () => {
+    const image = gradient(9, 7);
+    const tiff = encodeTiff(image, { compression: 'NONE', alpha: true });
+    expect(readTiff(tiff).tags.get(259)).toEqual([1]);
+    expect(stripBytes(tiff, strip => strip)).toEqual(Array.from(image.data));
+  });
+});
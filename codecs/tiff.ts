@@ -0,0 +1,229 @@
+import { concat } from './bytes';
+import type { GrainBuffer } from '../engine/grainEngine';
+
+export type TiffCompression = 'NONE' | 'LZW';
+
+export interface TiffOptions {
+  compression?: TiffCompression;
+  // Keep the alpha channel as an unassociated extra sample
+  alpha?: boolean;
+  // Print resolution written as XResolution / YResolution in inches
+  ppi?: number;
+}
+
+// Rows per strip, keeps each LZW strip around 64 KB for typical widths
+const stripRowsFor = (width: number, channels: number) => Math.max(1, Math.floor(65536 / (width * channels)));
+
+// TIFF flavour of LZW: MSB-first codes of 9 to 12 bits between Clear and EOI
+export const lzwEncode = (input: Uint8Array): Uint8Array => {
+  const CLEAR = 256;
+  const EOI = 257;
+  const out: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeWidth = 9;
+
+  const emit = (code: number) => {
+    bitBuffer = (bitBuffer << codeWidth) | code;
+    bitCount += codeWidth;
+    while (bitCount >= 8) {
+      bitCount -= 8;
+      out.push((bitBuffer >>> bitCount) & 0xff);
+    }
+    bitBuffer &= (1 << bitCount) - 1;
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = 258;
+
+  // Mirrors libtiff: the decoder lags one entry behind, so widths grow once the next code passes the current maximum
+  const addEntry = (key?: number) => {
+    if (key !== undefined) table.set(key, nextCode);
+    nextCode++;
+    if (nextCode === 4094) {
+      emit(CLEAR);
+      table = new Map();
+      nextCode = 258;
+      codeWidth = 9;
+    } else if (nextCode > (1 << codeWidth) - 1) {
+      codeWidth++;
+    }
+  };
+
+  emit(CLEAR);
+  if (input.length > 0) {
+    let prefix = input[0];
+    for (let i = 1; i < input.length; i++) {
+      const byte = input[i];
+      const key = (prefix << 8) | byte;
+      const existing = table.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+      emit(prefix);
+      addEntry(key);
+      prefix = byte;
+    }
+    emit(prefix);
+    // The decoder still adds an entry for the final code, which can bump the width of EOI
+    addEntry();
+  }
+  emit(EOI);
+  if (bitCount > 0) out.push((bitBuffer << (8 - bitCount)) & 0xff);
+  return Uint8Array.from(out);
+};
+
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_ASCII = 2;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  values: number[] | string;
+}
+
+export interface TiffWriter {
+  // Appends the next rows of the image, top to bottom
+  write: (rows: GrainBuffer) => void;
+  // Finishes the file and returns it as a list of chunks, ready for a Blob
+  close: () => Uint8Array[];
+}
+
+// Baseline little-endian TIFF: header, strips, then the IFD and its out-of-line values.
+// Strips are compressed as their rows arrive; the header is filled in last, once the IFD offset is known.
+export const createTiffWriter = (
+  width: number,
+  height: number,
+  { compression = 'LZW', alpha = false, ppi = 72 }: TiffOptions = {}
+): TiffWriter => {
+  const channels = alpha ? 4 : 3;
+  const rowsPerStrip = stripRowsFor(width, channels);
+  const rowBytes = width * channels;
+
+  const strips: Uint8Array[] = [];
+  let pending = new Uint8Array(Math.min(rowsPerStrip, height) * rowBytes);
+  let pendingRows = 0;
+  let rowsWritten = 0;
+
+  const flush = () => {
+    if (pendingRows === 0) return;
+    const raw = pending.subarray(0, pendingRows * rowBytes);
+    strips.push(compression === 'LZW' ? lzwEncode(raw) : raw.slice());
+    rowsWritten += pendingRows;
+    pendingRows = 0;
+    pending = new Uint8Array(Math.min(rowsPerStrip, Math.max(1, height - rowsWritten)) * rowBytes);
+  };
+
+  const write = ({ height: rows, data }: GrainBuffer) => {
+    for (let y = 0; y < rows; y++) {
+      let i = pendingRows * rowBytes;
+      for (let x = 0, p = y * width * 4; x < width; x++, p += 4) {
+        pending[i++] = data[p];
+        pending[i++] = data[p + 1];
+        pending[i++] = data[p + 2];
+        if (alpha) pending[i++] = data[p + 3];
+      }
+      pendingRows++;
+      if (pendingRows === rowsPerStrip || rowsWritten + pendingRows === height) flush();
+    }
+  };
+
+  const close = () => {
+    flush();
+
+    let offset = 8;
+    const stripOffsets = strips.map(strip => {
+      const start = offset;
+      offset += strip.length;
+      return start;
+    });
+    const align = offset % 2; // IFD starts on a word boundary
+    const ifdOffset = offset + align;
+
+    // Resolution as a rational with two decimals of precision
+    const resolution = [Math.round(ppi * 100), 100];
+    const entries: IfdEntry[] = [
+      { tag: 256, type: TYPE_LONG, values: [width] },
+      { tag: 257, type: TYPE_LONG, values: [height] },
+      { tag: 258, type: TYPE_SHORT, values: new Array(channels).fill(8) },
+      { tag: 259, type: TYPE_SHORT, values: [compression === 'LZW' ? 5 : 1] },
+      { tag: 262, type: TYPE_SHORT, values: [2] }, // RGB
+      { tag: 273, type: TYPE_LONG, values: stripOffsets },
+      { tag: 277, type: TYPE_SHORT, values: [channels] },
+      { tag: 278, type: TYPE_LONG, values: [rowsPerStrip] },
+      { tag: 279, type: TYPE_LONG, values: strips.map(strip => strip.length) },
+      { tag: 282, type: TYPE_RATIONAL, values: resolution },
+      { tag: 283, type: TYPE_RATIONAL, values: resolution },
+      { tag: 284, type: TYPE_SHORT, values: [1] }, // chunky
+      { tag: 296, type: TYPE_SHORT, values: [2] }, // inches
+      { tag: 305, type: TYPE_ASCII, values: 'Grainy.ai\0' },
+      ...(alpha ? [{ tag: 338, type: TYPE_SHORT, values: [2] }] : []), // unassociated alpha
+    ];
+
+    const byteSize = (entry: IfdEntry) => {
+      if (typeof entry.values === 'string') return entry.values.length;
+      const unit = entry.type === TYPE_SHORT ? 2 : 4;
+      return entry.values.length * unit;
+    };
+    const count = (entry: IfdEntry) =>
+      typeof entry.values === 'string' ? entry.values.length : entry.type === TYPE_RATIONAL ? entry.values.length / 2 : entry.values.length;
+
+    const ifdSize = 2 + entries.length * 12 + 4;
+    const extraSize = entries.reduce((sum, entry) => {
+      const size = byteSize(entry);
+      return size > 4 ? sum + size + (size % 2) : sum;
+    }, 0);
+
+    // Offsets inside the IFD are absolute, `ifd` itself starts at ifdOffset
+    const ifd = new Uint8Array(ifdSize + extraSize);
+    const view = new DataView(ifd.buffer);
+    let extraOffset = ifdSize;
+
+    const writeValues = (entry: IfdEntry, at: number) => {
+      if (typeof entry.values === 'string') {
+        for (let i = 0; i < entry.values.length; i++) ifd[at + i] = entry.values.charCodeAt(i);
+        return;
+      }
+      entry.values.forEach((value, i) => {
+        if (entry.type === TYPE_SHORT) view.setUint16(at + i * 2, value, true);
+        else view.setUint32(at + i * 4, value, true);
+      });
+    };
+
+    view.setUint16(0, entries.length, true);
+    entries.forEach((entry, i) => {
+      const at = 2 + i * 12;
+      view.setUint16(at, entry.tag, true);
+      view.setUint16(at + 2, entry.type, true);
+      view.setUint32(at + 4, count(entry), true);
+      const size = byteSize(entry);
+      if (size <= 4) {
+        writeValues(entry, at + 8);
+      } else {
+        view.setUint32(at + 8, ifdOffset + extraOffset, true);
+        writeValues(entry, extraOffset);
+        extraOffset += size + (size % 2);
+      }
+    });
+    view.setUint32(2 + entries.length * 12, 0, true); // no next IFD
+
+    const header = new Uint8Array(8);
+    const headerView = new DataView(header.buffer);
+    header.set([0x49, 0x49], 0); // "II"
+    headerView.setUint16(2, 42, true);
+    headerView.setUint32(4, ifdOffset, true);
+
+    return [header, ...strips, new Uint8Array(align), ifd];
+  };
+
+  return { write, close };
+};
+
+export const encodeTiff = (buffer: GrainBuffer, options: TiffOptions = {}): Uint8Array => {
+  const writer = createTiffWriter(buffer.width, buffer.height, options);
+  writer.write(buffer);
+  return concat(writer.close());
+};
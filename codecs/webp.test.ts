@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAnimatedWebp } from './webp';
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+// A still WebP around one image chunk; the encoder only moves the payload, so it needn't decode
+const still = (type: string, payload: number[]) => {
+  const size = 4 + 8 + payload.length + (payload.length & 1);
+  const file = new Uint8Array(8 + size);
+  const view = new DataView(file.buffer);
+  file.set(ascii('RIFF'));
+  view.setUint32(4, size, true);
+  file.set(ascii('WEBP'), 8);
+  file.set(ascii(type), 12);
+  view.setUint32(16, payload.length, true);
+  file.set(payload, 20);
+  return file;
+};
+
+const uint24 = (bytes: Uint8Array, at: number) => bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+
+// Top-level chunks of a RIFF WebP
+const readChunks = (webp: Uint8Array) => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const chunks: { type: string; payload: Uint8Array }[] = [];
+  for (let at = 12; at < webp.length; ) {
+    const size = view.getUint32(at + 4, true);
+    chunks.push({ type: String.fromCharCode(...webp.subarray(at, at + 4)), payload: webp.subarray(at + 8, at + 8 + size) });
+    at += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+describe('encodeAnimatedWebp', () => {
+  it('wraps every still in an ANMF frame after the VP8X and ANIM headers', () => {
+    const webp = encodeAnimatedWebp(300, 200, [
+      { webp: still('VP8 ', [1, 2, 3]), duration: 41.6 },
+      { webp: still('VP8 ', [4, 5, 6, 7]), duration: 42 },
+    ]);
+    expect(String.fromCharCode(...webp.subarray(0, 4))).toBe('RIFF');
+    expect(new DataView(webp.buffer).getUint32(4, true)).toBe(webp.length - 8);
+
+    const [extended, animation, ...frames] = readChunks(webp);
+    expect(extended.type).toBe('VP8X');
+    expect(extended.payload[0]).toBe(0x02);
+    expect([uint24(extended.payload, 4) + 1, uint24(extended.payload, 7) + 1]).toEqual([300, 200]);
+    expect(animation.type).toBe('ANIM');
+    expect(frames.map(f => f.type)).toEqual(['ANMF', 'ANMF']);
+    expect(frames.map(f => uint24(f.payload, 12))).toEqual([42, 42]);
+    // Odd-sized image chunks keep their padding byte inside the frame
+    expect(Array.from(frames[0].payload.subarray(16))).toEqual([...ascii('VP8 '), 3, 0, 0, 0, 1, 2, 3, 0]);
+  });
+
+  it('flags alpha when a frame is lossless', () => {
+    const webp = encodeAnimatedWebp(4, 4, [{ webp: still('VP8L', [9, 9]), duration: 100 }]);
+    expect(readChunks(webp)[0].payload[0]).toBe(0x12);
+  });
+
+  it('rejects frames that are not WebP images', () => {
+    expect(() => encodeAnimatedWebp(4, 4, [{ webp: ascii('GIF89a'), duration: 100 }])).toThrow('Not a WebP image');
+    expect(() => encodeAnimatedWebp(20000, 4, [])).toThrow('16383');
+  });
+});
@@ -0,0 +1,78 @@
+import { concat } from './bytes';
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const uint24 = (view: DataView, offset: number, value: number) => {
+  view.setUint8(offset, value & 0xff);
+  view.setUint8(offset + 1, (value >> 8) & 0xff);
+  view.setUint8(offset + 2, (value >> 16) & 0xff);
+};
+
+// RIFF chunk with its little-endian size and the padding byte odd sizes need
+const createChunk = (type: string, payload: Uint8Array) => {
+  const header = new Uint8Array(8);
+  header.set(ascii(type));
+  new DataView(header.buffer).setUint32(4, payload.length, true);
+  return concat([header, payload, new Uint8Array(payload.length & 1)]);
+};
+
+// The image chunks (ALPH, VP8, VP8L) of a still WebP, which is what an ANMF frame wraps
+const readImageChunks = (webp: Uint8Array) => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  if (webp.length < 12 || String.fromCharCode(...webp.subarray(0, 4)) !== 'RIFF' || String.fromCharCode(...webp.subarray(8, 12)) !== 'WEBP') {
+    throw new Error('Not a WebP image');
+  }
+  const chunks: Uint8Array[] = [];
+  let alpha = false;
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const type = String.fromCharCode(...webp.subarray(offset, offset + 4));
+    const end = offset + 8 + view.getUint32(offset + 4, true);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      chunks.push(webp.subarray(offset, end + (end & 1)));
+      // Lossless frames carry alpha inside the bitstream
+      alpha = alpha || type === 'ALPH' || type === 'VP8L';
+    }
+    offset = end + (end & 1);
+  }
+  if (!chunks.length) throw new Error('WebP image has no image data');
+  return { chunks, alpha };
+};
+
+export interface WebpFrame {
+  // A complete still WebP file, e.g. from canvas.toBlob
+  webp: Uint8Array;
+  // Milliseconds on screen
+  duration: number;
+}
+
+// Assembles still WebP frames into an animated WebP (VP8X + ANIM + ANMF) that loops forever
+export const encodeAnimatedWebp = (width: number, height: number, frames: WebpFrame[]): Uint8Array => {
+  if (width > 16383 || height > 16383) throw new Error('WebP is limited to 16383 px per side.');
+  const frameChunks: Uint8Array[] = [];
+  let alpha = false;
+  for (const { webp, duration } of frames) {
+    const image = readImageChunks(webp);
+    alpha = alpha || image.alpha;
+    const header = new Uint8Array(16);
+    const view = new DataView(header.buffer);
+    // frame offset 0, 0
+    uint24(view, 6, width - 1);
+    uint24(view, 9, height - 1);
+    uint24(view, 12, Math.min(0xffffff, Math.round(duration)));
+    header[15] = 0x02; // replace the canvas instead of blending, no disposal
+    frameChunks.push(createChunk('ANMF', concat([header, ...image.chunks])));
+  }
+
+  const extended = new Uint8Array(10);
+  const ev = new DataView(extended.buffer);
+  extended[0] = 0x02 | (alpha ? 0x10 : 0); // animation, alpha
+  uint24(ev, 4, width - 1);
+  uint24(ev, 7, height - 1);
+  // background color 0 (transparent black) and loop count 0 = forever
+  const animation = new Uint8Array(6);
+
+  const file = concat([ascii('RIFF'), new Uint8Array(4), ascii('WEBP'), createChunk('VP8X', extended), createChunk('ANIM', animation), ...frameChunks]);
+  new DataView(file.buffer).setUint32(4, file.length - 8, true);
+  return file;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { encodeZip } from './zip';
+import { concat } from './bytes';
+import { crc32 } from './crc32';
+
+// Entries found through the central directory, checked against their local headers
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const decoder = new TextDecoder();
+  const entries: { name: string; data: Uint8Array; crc: number; time: number; date: number }[] = [];
+
+  for (let i = 0, at = view.getUint32(end + 16, true); i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(at + 28, true);
+    const size = view.getUint32(at + 24, true);
+    const local = view.getUint32(at + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint16(local + 8, true)).toBe(0); // stored
+    expect(view.getUint32(local + 14, true)).toBe(view.getUint32(at + 16, true));
+    const start = local + 30 + view.getUint16(local + 26, true);
+    entries.push({
+      name: decoder.decode(zip.subarray(at + 46, at + 46 + nameLength)),
+      data: zip.subarray(start, start + size),
+      crc: view.getUint32(at + 16, true),
+      time: view.getUint16(at + 12, true),
+      date: view.getUint16(at + 14, true),
+    });
+    at += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('encodeZip', () => {
+  const files = [
+    { name: 'grain-01.png', data: Uint8Array.from({ length: 300 }, (_, i) => i % 256) },
+    { name: 'körnung/recipe.grainy.json', data: new TextEncoder().encode('{"seed":1}') },
+    { name: 'empty.txt', data: new Uint8Array() },
+  ];
+
+  it('stores every file with its name and CRC', () => {
+    const entries = readZip(concat(encodeZip(files)));
+    expect(entries.map(e => e.name)).toEqual(files.map(f => f.name));
+    entries.forEach((entry, i) => {
+      expect(entry.data).toEqual(files[i].data);
+      expect(entry.crc).toBe(crc32(files[i].data));
+    });
+  });
+
+  it('writes the modification time in MS-DOS format', () => {
+    const [entry] = readZip(concat(encodeZip(files.slice(0, 1), new Date(2024, 4, 17, 13, 45, 31))));
+    expect(entry.date).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+  });
+
+  it('writes an empty archive as just the end record', () => {
+    const zip = concat(encodeZip([]));
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// ZIP without ZIP64 tops out at 4 GB per file and 65535 entries
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+// MS-DOS date and time fields, local time at two-second resolution
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Stored (uncompressed) archive: the entries are PNGs and other already-compressed files,
+// so deflating again would cost time for nothing. Returns the file as a list of parts, ready for a Blob.
+export const encodeZip = (entries: ZipEntry[], modified = new Date()): Uint8Array[] => {
+  if (entries.length > MAX_ENTRIES) throw new Error(`A ZIP holds at most ${MAX_ENTRIES} files.`);
+  const { time, date } = dosDateTime(modified);
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data } of entries) {
+    if (data.length > MAX_SIZE || offset > MAX_SIZE) throw new Error('The ZIP would be larger than 4 GB.');
+    const fileName = encoder.encode(name);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + fileName.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // local file header signature
+    lv.setUint16(4, 20, true); // version needed: 2.0
+    lv.setUint16(6, 0x0800, true); // flags: UTF-8 names
+    lv.setUint16(8, 0, true); // method: stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, fileName.length, true);
+    local.set(fileName, 30);
+
+    const central = new Uint8Array(46 + fileName.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true); // central directory signature
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, fileName.length, true);
+    // extra and comment lengths, disk number and attributes stay 0
+    cv.setUint32(42, offset, true);
+    central.set(fileName, 46);
+
+    parts.push(local, data);
+    directory.push(central);
+    offset += local.length + data.length;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  if (offset + directorySize > MAX_SIZE) throw new Error('The ZIP would be larger than 4 GB.');
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // end of central directory signature
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+
+  return [...parts, ...directory, end];
+};
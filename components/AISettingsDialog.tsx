@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { AIProviderConfig } from '../services/aiProvider';
+import { RECIPE_PROVIDERS } from '../services/aiService';
+
+interface AISettingsDialogProps {
+  config: AIProviderConfig;
+  onSave: (config: AIProviderConfig) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_NOTES: Record<AIProviderConfig['provider'], string> = {
+  GEMINI: 'Google Gemini. Leave the key empty to use GEMINI_API_KEY from the build.',
+  OPENAI: 'Any OpenAI-compatible chat endpoint, e.g. a local Ollama or LM Studio server.',
+  OFFLINE: 'Derives recipes from the words in your prompt. No network, same prompt gives the same recipes.',
+};
+
+const Field: React.FC<{ label: string; value: string; onChange: (value: string) => void; type?: string; placeholder?: string }> = ({
+  label, value, onChange, type = 'text', placeholder,
+}) => (
+  <div className="space-y-2">
+    <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">{label}</label>
+    <input
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={e => onChange(e.target.value)}
+      className="w-full bg-transparent border-b border-black py-2 text-sm font-mono focus:outline-none"
+    />
+  </div>
+);
+
+// Edits a draft copy; nothing changes until SAVE
+const AISettingsDialog: React.FC<AISettingsDialogProps> = ({ config, onSave, onClose }) => {
+  const [draft, setDraft] = useState(config);
+  const setGemini = (changes: Partial<AIProviderConfig['gemini']>) => setDraft(d => ({ ...d, gemini: { ...d.gemini, ...changes } }));
+  const setOpenAi = (changes: Partial<AIProviderConfig['openai']>) => setDraft(d => ({ ...d, openai: { ...d.openai, ...changes } }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="w-[420px] bg-white border-2 border-black shadow-[20px_20px_0px_rgba(0,0,0,0.1)]" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b-4 border-black flex justify-between items-baseline">
+          <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter">AI Provider</h2>
+          <button onClick={onClose} className="font-mono font-bold text-sm hover:bg-zinc-100 px-2">✕</button>
+        </div>
+
+        <div className="p-8 space-y-8">
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 border border-black">
+              {RECIPE_PROVIDERS.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setDraft(d => ({ ...d, provider: p.id }))}
+                  className={`py-3 text-[9px] font-mono font-bold uppercase tracking-widest border-r border-black last:border-r-0 transition-colors ${
+                    draft.provider === p.id ? 'bg-black text-white' : 'hover:bg-zinc-50'
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[9px] font-mono uppercase tracking-widest opacity-50 leading-relaxed">{PROVIDER_NOTES[draft.provider]}</p>
+          </div>
+
+          {draft.provider === 'GEMINI' && (
+            <div className="space-y-6">
+              <Field label="Model" value={draft.gemini.model} onChange={model => setGemini({ model })} />
+              <Field label="API Key" type="password" value={draft.gemini.apiKey} onChange={apiKey => setGemini({ apiKey })} placeholder="From build environment" />
+            </div>
+          )}
+
+          {draft.provider === 'OPENAI' && (
+            <div className="space-y-6">
+              <Field label="Endpoint" value={draft.openai.endpoint} onChange={endpoint => setOpenAi({ endpoint })} placeholder="http://localhost:11434/v1" />
+              <Field label="Model" value={draft.openai.model} onChange={model => setOpenAi({ model })} />
+              <Field label="API Key" type="password" value={draft.openai.apiKey} onChange={apiKey => setOpenAi({ apiKey })} placeholder="Optional for local servers" />
+            </div>
+          )}
+
+          {draft.provider !== 'OFFLINE' && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-3 text-[9px] font-mono font-bold uppercase tracking-widest cursor-pointer">
+                <input type="checkbox" checked={draft.rememberKeys} onChange={e => setDraft(d => ({ ...d, rememberKeys: e.target.checked }))} />
+                Remember keys on this device
+              </label>
+              <p className="text-[9px] font-mono uppercase tracking-widest opacity-50 leading-relaxed">
+                {draft.rememberKeys
+                  ? 'Warning: keys are saved unencrypted in this browser, where any script on this site can read them. Only use this on a device you trust.'
+                  : 'Keys are forgotten when this tab closes'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t-4 border-black">
+          <button
+            onClick={() => onSave(draft)}
+            className="w-full bg-black text-white font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 hover:bg-white hover:text-black border-2 border-black transition-all active:scale-[0.98]"
+          >
+            SAVE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsDialog;
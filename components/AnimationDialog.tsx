@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GrainSettings, APP_LIMITS } from '../types';
+import { GrainBuffer } from '../engine/grainEngine';
+import { BaseImage } from '../services/imageService';
+import { downloadBlob, isLargeFormat } from '../services/exportService';
+import {
+  AnimationOptions, ANIMATION_FORMATS, FRAME_RATES, MAX_ANIMATION_SECONDS,
+  createFrameSource, exportAnimation, getAnimationFormatInfo,
+} from '../services/animationService';
+
+interface AnimationDialogProps {
+  settings: GrainSettings;
+  baseImage: BaseImage | null;
+  options: AnimationOptions;
+  onChange: (options: AnimationOptions) => void;
+  onClose: () => void;
+}
+
+// Grain-only crop at 1:1 that plays in the dialog while the options are tuned
+const PREVIEW_SIZE = 160;
+
+const AnimationDialog: React.FC<AnimationDialogProps> = ({ settings, baseImage, options, onChange, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const info = getAnimationFormatInfo(options.format);
+  const large = isLargeFormat(settings);
+  const update = <K extends keyof AnimationOptions>(key: K, value: AnimationOptions[K]) => onChange({ ...options, [key]: value });
+  const { fps, duration, coherence, loop } = options;
+
+  // Keyframes are kept, so after the first pass the preview only mixes
+  useEffect(() => {
+    const source = createFrameSource(
+      { ...settings, width: PREVIEW_SIZE, height: PREVIEW_SIZE },
+      { fps, duration, coherence, loop },
+      { keepKeyframes: true }
+    );
+    const out: GrainBuffer = { width: PREVIEW_SIZE, height: PREVIEW_SIZE, data: new Uint8ClampedArray(PREVIEW_SIZE * PREVIEW_SIZE * 4) };
+    let frame = 0;
+    let busy = false;
+    const timer = setInterval(async () => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (busy || !ctx) return;
+      busy = true;
+      try {
+        await source.renderFrame(frame, out);
+        ctx.putImageData(new ImageData(out.data, out.width, out.height), 0, 0);
+        frame = (frame + 1) % source.plan.frames;
+      } catch (err) {
+        console.error('Failed to render preview frame', err);
+      }
+      busy = false;
+    }, 1000 / fps);
+    return () => {
+      clearInterval(timer);
+      source.cancel();
+    };
+  }, [settings, fps, duration, coherence, loop]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setProgress(0);
+    try {
+      const blob = await exportAnimation(settings, baseImage, options, setProgress);
+      downloadBlob(blob, `Grainy_Loop_${settings.width}x${settings.height}_${fps}fps.${info.extension}`);
+      onClose();
+    } catch (err) {
+      console.error('Failed to export animation', err);
+      alert(err instanceof Error ? err.message : `Failed to export the ${info.label} animation.`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const frames = Math.max(1, Math.round(fps * duration));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={exporting ? undefined : onClose}>
+      <div className="w-[480px] bg-white border-2 border-black shadow-[20px_20px_0px_rgba(0,0,0,0.1)]" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b-4 border-black flex justify-between items-baseline">
+          <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter">Animate</h2>
+          <button onClick={onClose} disabled={exporting} className="font-mono font-bold text-sm hover:bg-zinc-100 px-2 disabled:opacity-30">✕</button>
+        </div>
+
+        <div className="p-8 space-y-8">
+          <div className="flex gap-6 items-start">
+            <canvas
+              ref={canvasRef}
+              width={PREVIEW_SIZE}
+              height={PREVIEW_SIZE}
+              className="w-40 h-40 border border-black shrink-0"
+              style={{ imageRendering: 'pixelated' }}
+            />
+            <div className="flex-1 space-y-6">
+              <div className="space-y-3">
+                <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Frame Rate</label>
+                <div className="grid grid-cols-4 border border-black">
+                  {FRAME_RATES.map(rate => (
+                    <button
+                      key={rate}
+                      onClick={() => update('fps', rate)}
+                      className={`py-2 text-[9px] font-mono font-bold border-r border-black last:border-r-0 transition-colors ${fps === rate ? 'bg-black text-white' : 'hover:bg-zinc-50'}`}
+                    >
+                      {rate}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-between items-center">
+                <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Seamless Loop</label>
+                <div className="flex border border-black">
+                  <button
+                    onClick={() => update('loop', false)}
+                    className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${!loop ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+                  >OFF</button>
+                  <button
+                    onClick={() => update('loop', true)}
+                    className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${loop ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+                  >ON</button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-baseline">
+              <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Duration</label>
+              <span className="text-[10px] font-mono font-bold">{duration.toFixed(1)} S · {frames} FRAMES</span>
+            </div>
+            <input
+              type="range" min="0.5" max={MAX_ANIMATION_SECONDS} step="0.5"
+              value={duration}
+              onChange={e => update('duration', Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-baseline">
+              <label
+                className="text-[9px] font-mono uppercase tracking-widest opacity-50"
+                title="0 draws new grain every frame; higher values morph between seeds so the grain boils instead of strobing"
+              >
+                Temporal Coherence
+              </label>
+              <span className="text-[10px] font-mono font-bold">{Math.round(coherence * 100)}</span>
+            </div>
+            <input
+              type="range" min="0" max="1" step="0.01"
+              value={coherence}
+              onChange={e => update('coherence', Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Format</label>
+            <div className="grid grid-cols-3 border border-black">
+              {ANIMATION_FORMATS.map(f => (
+                <button
+                  key={f.format}
+                  onClick={() => update('format', f.format)}
+                  className={`py-3 text-[10px] font-mono font-bold uppercase tracking-widest border-r border-black last:border-r-0 transition-colors ${
+                    options.format === f.format ? 'bg-black text-white' : 'hover:bg-zinc-50'
+                  }`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[9px] font-mono uppercase tracking-widest opacity-50">
+              {large
+                ? `Animations are limited to ${APP_LIMITS.MAX_DIMENSION} px per side`
+                : `${settings.width} × ${settings.height} px per frame${options.format === 'GIF' ? ' · 256 colors, delays in 1/100 s' : ''}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 border-t-4 border-black">
+          <button
+            onClick={handleExport}
+            disabled={exporting || large}
+            className="w-full bg-black text-white font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 hover:bg-white hover:text-black border-2 border-black transition-all active:scale-[0.98] disabled:opacity-50"
+          >
+            {exporting ? `RENDERING ${Math.round(progress * 100)}%` : `EXPORT ${info.label}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnimationDialog;
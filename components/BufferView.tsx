@@ -0,0 +1,28 @@
+import React, { useEffect, useRef } from 'react';
+import { GrainBuffer } from '../engine/grainEngine';
+
+interface BufferViewProps {
+  buffer: GrainBuffer | null;
+  className?: string;
+}
+
+// Draws a rendered buffer pixel for pixel; an empty grey square until it arrives
+const BufferView: React.FC<BufferViewProps> = ({ buffer, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !buffer) return;
+    canvas.width = buffer.width;
+    canvas.height = buffer.height;
+    canvas.getContext('2d')?.putImageData(new ImageData(buffer.data, buffer.width, buffer.height), 0, 0);
+  }, [buffer]);
+
+  return (
+    <div className={`aspect-square bg-zinc-100 overflow-hidden ${className}`}>
+      {buffer && <canvas ref={canvasRef} className="w-full h-full object-cover" style={{ imageRendering: 'pixelated' }} />}
+    </div>
+  );
+};
+
+export default BufferView;
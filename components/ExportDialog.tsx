@@ -0,0 +1,125 @@
+import React from 'react';
+import { GrainSettings, APP_LIMITS } from '../types';
+import { ExportOptions, EXPORT_FORMATS, getFormatInfo, isLargeFormat } from '../services/exportService';
+
+interface ExportDialogProps {
+  settings: GrainSettings;
+  options: ExportOptions;
+  exporting: boolean;
+  // Completed fraction of the running export
+  progress: number;
+  onChange: (options: ExportOptions) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ settings, options, exporting, progress, onChange, onExport, onClose }) => {
+  const info = getFormatInfo(options.format);
+  const large = isLargeFormat(settings);
+  const available = !large || info.streams;
+  const update = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => onChange({ ...options, [key]: value });
+  const widthMm = ((settings.width * 25.4) / settings.ppi).toFixed(1);
+  const heightMm = ((settings.height * 25.4) / settings.ppi).toFixed(1);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="w-[420px] bg-white border-2 border-black shadow-[20px_20px_0px_rgba(0,0,0,0.1)]" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b-4 border-black flex justify-between items-baseline">
+          <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter">Export</h2>
+          <button onClick={onClose} className="font-mono font-bold text-sm hover:bg-zinc-100 px-2">✕</button>
+        </div>
+
+        <div className="p-8 space-y-8">
+          <div className="space-y-3">
+            <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Format</label>
+            <div className="grid grid-cols-4 border border-black">
+              {EXPORT_FORMATS.map(f => (
+                <button
+                  key={f.format}
+                  onClick={() => update('format', f.format)}
+                  disabled={large && !f.streams}
+                  className={`py-3 text-[10px] font-mono font-bold uppercase tracking-widest border-r border-black last:border-r-0 transition-colors disabled:opacity-30 ${
+                    options.format === f.format ? 'bg-black text-white' : 'hover:bg-zinc-50'
+                  }`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            {large && (
+              <p className="text-[9px] font-mono uppercase tracking-widest opacity-50">
+                Above {APP_LIMITS.MAX_DIMENSION} px the file is rendered in strips · PNG and TIFF only
+              </p>
+            )}
+          </div>
+
+          {(options.format === 'JPEG' || options.format === 'WEBP') && (
+            <div className="space-y-3">
+              <div className="flex justify-between items-baseline">
+                <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Quality</label>
+                <span className="text-[10px] font-mono font-bold">{Math.round(options.quality * 100)}</span>
+              </div>
+              <input
+                type="range" min="0.1" max="1" step="0.01"
+                value={options.quality}
+                onChange={e => update('quality', Number(e.target.value))}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          {options.format === 'TIFF' && (
+            <div className="flex justify-between items-center">
+              <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Compression</label>
+              <div className="flex border border-black">
+                <button
+                  onClick={() => update('tiffCompression', 'NONE')}
+                  className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${options.tiffCompression === 'NONE' ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+                >NONE</button>
+                <button
+                  onClick={() => update('tiffCompression', 'LZW')}
+                  className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${options.tiffCompression === 'LZW' ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+                >LZW</button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center">
+            <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Background</label>
+            <div className={`flex border border-black ${info.alpha ? '' : 'opacity-30 pointer-events-none'}`}>
+              <button
+                onClick={() => update('transparent', false)}
+                className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${!options.transparent || !info.alpha ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+              >FILLED</button>
+              <button
+                onClick={() => update('transparent', true)}
+                className={`px-2 py-1 text-[9px] font-mono font-bold transition-colors ${options.transparent && info.alpha ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+              >TRANSPARENT</button>
+            </div>
+          </div>
+
+          <div className="border border-black p-4 font-mono text-[10px] uppercase tracking-widest space-y-1">
+            <div className="flex justify-between"><span className="opacity-50">Pixels</span><span className="font-bold">{settings.width} × {settings.height}</span></div>
+            <div className="flex justify-between"><span className="opacity-50">Print Size</span><span className="font-bold">{widthMm} × {heightMm} MM</span></div>
+            <div className="flex justify-between">
+              <span className="opacity-50">Resolution</span>
+              <span className="font-bold">{info.embedsPpi ? `${settings.ppi} PPI EMBEDDED` : 'NOT STORED IN WEBP'}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t-4 border-black">
+          <button
+            onClick={onExport}
+            disabled={exporting || !available}
+            className="w-full bg-black text-white font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 hover:bg-white hover:text-black border-2 border-black transition-all active:scale-[0.98] disabled:opacity-50"
+          >
+            {exporting ? `RENDERING ${Math.round(progress * 100)}%` : `EXPORT ${info.label}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -1,26 +1,59 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import { GrainSettings, GrainTexture, APP_LIMITS } from '../types';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GrainSettings, OutputMode } from '../types';
+import { getOutputSize } from '../engine/grainEngine';
+import { RenderJob, startRender, createPreviewSettings, createDisplaySettings } from '../services/renderService';
+import { BaseImage } from '../services/imageService';
 
 interface GrainCanvasProps {
   settings: GrainSettings;
-  onCanvasReady: (canvas: HTMLCanvasElement) => void;
+  // The canvas once it holds the finished render of the current settings, null while it's stale
+  onCanvasReady: (canvas: HTMLCanvasElement | null) => void;
+  // Show the texture repeated 3×3 to check tile seams
+  showRepeat?: boolean;
+  // Image drawn under the grain instead of the flat bgColor
+  baseImage?: BaseImage | null;
+  // Drawn over the preview at its size, e.g. the mask brush
+  overlay?: React.ReactNode;
 }
 
-// Simple seeded PRNG (Mulberry32)
-const createRandom = (seed: number) => {
-  let s = seed;
-  return () => {
-    let t = (s += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-};
+// Longest side of the 3×3 repeat preview
+const REPEAT_MAX_SIZE = 3000;
 
-const GrainCanvas: React.FC<GrainCanvasProps> = ({ settings, onCanvasReady }) => {
+const GrainCanvas: React.FC<GrainCanvasProps> = ({ settings, onCanvasReady, showRepeat = false, baseImage = null, overlay = null }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isRendering, setIsRendering] = useState(false);
+  const repeatRef = useRef<HTMLCanvasElement>(null);
+  // null while idle, otherwise the completed fraction of the full-size render
+  const [progress, setProgress] = useState<number | null>(null);
+  const [hasPreview, setHasPreview] = useState(false);
+
+  const drawRepeat = useCallback(() => {
+    const canvas = canvasRef.current;
+    const repeat = repeatRef.current;
+    if (!canvas || !repeat || !showRepeat) return;
+
+    const ratio = Math.min(1, REPEAT_MAX_SIZE / (3 * Math.max(canvas.width, canvas.height)));
+    const tileW = Math.max(1, Math.round(canvas.width * ratio));
+    const tileH = Math.max(1, Math.round(canvas.height * ratio));
+    repeat.width = tileW * 3;
+    repeat.height = tileH * 3;
+
+    const rCtx = repeat.getContext('2d', { alpha: false });
+    if (!rCtx) return;
+    for (let ty = 0; ty < 3; ty++) {
+      for (let tx = 0; tx < 3; tx++) {
+        rCtx.drawImage(canvas, tx * tileW, ty * tileH, tileW, tileH);
+      }
+    }
+  }, [showRepeat]);
+
+  // Read through a ref so toggling the repeat view doesn't restart the render
+  const drawRepeatRef = useRef(drawRepeat);
+  drawRepeatRef.current = drawRepeat;
+
+  useEffect(() => {
+    drawRepeat();
+  }, [drawRepeat]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -29,160 +62,63 @@ const GrainCanvas: React.FC<GrainCanvasProps> = ({ settings, onCanvasReady }) =>
     const ctx = canvas.getContext('2d', { alpha: false });
     if (!ctx) return;
 
-    const { width, height, intensity, scale, roughness, monochrome, bgColor, grainColor, texture, seed, randomness } = settings;
-    
-    const finalWidth = Math.min(width, APP_LIMITS.MAX_DIMENSION);
-    const finalHeight = Math.min(height, APP_LIMITS.MAX_DIMENSION);
-
-    canvas.width = finalWidth;
-    canvas.height = finalHeight;
-
-    setIsRendering(true);
-
-    const renderId = requestAnimationFrame(() => {
-      const rng = createRandom(seed);
-
-      ctx.fillStyle = bgColor;
-      ctx.fillRect(0, 0, finalWidth, finalHeight);
-
-      const noiseScale = Math.max(1, scale);
-      const noiseW = Math.ceil(finalWidth / noiseScale);
-      const noiseH = Math.ceil(finalHeight / noiseScale);
-
-      // --- Clumping / Randomness Map Generation ---
-      let clutterData: Uint8ClampedArray | null = null;
-      if (randomness > 0.05) {
-        // Create a low-res map for clumping
-        const clutterScale = 50; // How "large" the clumps are
-        const cW = Math.ceil(noiseW / clutterScale) + 2;
-        const cH = Math.ceil(noiseH / clutterScale) + 2;
-        
-        const clutterCanvas = document.createElement('canvas');
-        clutterCanvas.width = cW;
-        clutterCanvas.height = cH;
-        const cCtx = clutterCanvas.getContext('2d');
-        if (cCtx) {
-          const cImgData = cCtx.createImageData(cW, cH);
-          const cData = cImgData.data;
-          for (let i = 0; i < cData.length; i += 4) {
-            const val = rng() * 255;
-            cData[i] = val;     // R
-            cData[i+1] = val;   // G
-            cData[i+2] = val;   // B
-            cData[i+3] = 255;   // A
-          }
-          cCtx.putImageData(cImgData, 0, 0);
-
-          // Upscale to noise dimension to get smooth interpolation
-          const smoothCanvas = document.createElement('canvas');
-          smoothCanvas.width = noiseW;
-          smoothCanvas.height = noiseH;
-          const sCtx = smoothCanvas.getContext('2d');
-          if (sCtx) {
-            sCtx.imageSmoothingEnabled = true; // Essential for soft clouds
-            sCtx.imageSmoothingQuality = 'high';
-            sCtx.drawImage(clutterCanvas, 0, 0, noiseW, noiseH);
-            clutterData = sCtx.getImageData(0, 0, noiseW, noiseH).data;
-          }
-        }
+    // Outputs beyond one canvas are shown scaled down; the export renders them at full size
+    const display = createDisplaySettings(settings);
+    const { width, height } = getOutputSize(display.settings);
+    let cancelled = false;
+    let job: RenderJob | null = null;
+
+    setProgress(0);
+    setHasPreview(false);
+    // Until the full render lands the canvas shows old pixels or the stretched low-res pass
+    onCanvasReady(null);
+
+    const run = async () => {
+      // Fast low-res pass, stretched to the final size until the full render lands
+      const preview = createPreviewSettings(display);
+      if (preview) {
+        job = startRender(preview.settings, { base: baseImage, downscale: preview.downscale });
+        const quick = await job.promise;
+        if (!quick || cancelled) return;
+
+        const bitmap = await createImageBitmap(new ImageData(quick.data, quick.width, quick.height));
+        if (cancelled) return;
+        canvas.width = width;
+        canvas.height = height;
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+        drawRepeatRef.current();
+        setHasPreview(true);
       }
 
-      const offscreen = document.createElement('canvas');
-      offscreen.width = noiseW;
-      offscreen.height = noiseH;
-      const offCtx = offscreen.getContext('2d');
-      if (!offCtx) return;
+      job = startRender(display.settings, { onProgress: setProgress, base: baseImage, downscale: display.downscale });
+      const buffer = await job.promise;
+      if (!buffer || cancelled) return;
 
-      const noiseImageData = offCtx.createImageData(noiseW, noiseH);
-      const data = noiseImageData.data;
+      canvas.width = buffer.width;
+      canvas.height = buffer.height;
+      ctx.putImageData(new ImageData(buffer.data, buffer.width, buffer.height), 0, 0);
+      drawRepeatRef.current();
 
-      const gR = parseInt(grainColor.slice(1, 3), 16) || 0;
-      const gG = parseInt(grainColor.slice(3, 5), 16) || 0;
-      const gB = parseInt(grainColor.slice(5, 7), 16) || 0;
-
-      for (let i = 0; i < data.length; i += 4) {
-        let noise = 0;
-        
-        switch (texture) {
-          case GrainTexture.GAUSSIAN:
-            const u = 1 - rng();
-            const v = 1 - rng();
-            noise = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-            noise = (noise + 3) / 6; 
-            break;
-          case GrainTexture.SPECKLE:
-            noise = rng() > (1 - intensity * 0.8) ? rng() : 0.5;
-            break;
-          case GrainTexture.FILM:
-            noise = (rng() + rng() + rng()) / 3;
-            break;
-          case GrainTexture.UNIFORM:
-          default:
-            noise = rng();
-            break;
-        }
-
-        let effect = noise * intensity;
-
-        // Apply Clumping / Randomness
-        if (clutterData) {
-          // Normalize clutter value 0-1
-          const mapVal = clutterData[i] / 255; 
-          
-          // If randomness is high, we want more distinct gaps.
-          // mapVal is smooth noise 0-1.
-          // We can use it as a mask.
-          
-          // Contrast curve based on randomness
-          // If mapVal < randomness, suppress grain.
-          // To make it smoother:
-          
-          const threshold = randomness * 0.8; // Max threshold 0.8 to always leave some spots
-          
-          // Soft threshold
-          let mask = (mapVal - threshold) / (1 - threshold);
-          if (mask < 0) mask = 0;
-          if (mask > 1) mask = 1;
-          
-          // If randomness is low (e.g. 0.1), threshold is low, mask is mostly 1.
-          // If randomness is high (e.g. 0.9), threshold is high, mask is mostly 0 (gaps).
-          
-          effect *= (mask * 0.8 + 0.2); // Never fully remove grain, just suppress
-        }
-        
-        if (monochrome) {
-            data[i] = gR;
-            data[i+1] = gG;
-            data[i+2] = gB;
-            data[i+3] = effect * 255;
-        } else {
-            data[i] = rng() * 255;
-            data[i+1] = rng() * 255;
-            data[i+2] = rng() * 255;
-            data[i+3] = effect * 255;
-        }
-      }
-
-      offCtx.putImageData(noiseImageData, 0, 0);
-
-      ctx.save();
-      ctx.imageSmoothingEnabled = false;
-      ctx.globalAlpha = settings.opacity;
-      ctx.drawImage(offscreen, 0, 0, finalWidth, finalHeight);
-      ctx.restore();
-
-      if (roughness > 0.01) {
-        ctx.filter = `blur(${roughness * 10}px)`;
-        ctx.drawImage(canvas, 0, 0);
-        ctx.filter = 'none';
-      }
-      
       onCanvasReady(canvas);
-      setIsRendering(false);
+      setProgress(null);
+    };
+
+    run().catch(err => {
+      console.error('Failed to render grain', err);
+      if (!cancelled) setProgress(null);
     });
 
-    return () => cancelAnimationFrame(renderId);
-  }, [settings, onCanvasReady]);
+    // Settings changed mid-render: drop the stale job
+    return () => {
+      cancelled = true;
+      job?.cancel();
+    };
+  }, [settings, baseImage, onCanvasReady]);
+
+  const isRendering = progress !== null;
+  const previewRatio = createDisplaySettings(settings).downscale;
 
   return (
     <div className="w-full h-full flex flex-col items-center justify-center bg-white overflow-hidden relative group">
@@ -195,15 +131,26 @@ const GrainCanvas: React.FC<GrainCanvasProps> = ({ settings, onCanvasReady }) =>
            }}>
         <canvas 
           ref={canvasRef} 
-          className={`w-full h-auto object-contain bg-white transition-opacity duration-100 ${isRendering ? 'opacity-30' : 'opacity-100'}`}
-          style={{ imageRendering: settings.scale > 1 ? 'pixelated' : 'auto' }}
+          className={`w-full h-auto object-contain bg-white transition-opacity duration-100 ${showRepeat ? 'hidden' : ''} ${isRendering && !hasPreview ? 'opacity-30' : 'opacity-100'}`}
+          style={{ imageRendering: settings.scale > 1 || settings.outputMode !== OutputMode.CONTINUOUS ? 'pixelated' : 'auto' }}
         />
+        {!showRepeat && overlay}
+        {showRepeat && (
+          <canvas
+            ref={repeatRef}
+            className={`w-full h-auto object-contain bg-white transition-opacity duration-100 ${isRendering && !hasPreview ? 'opacity-30' : 'opacity-100'}`}
+          />
+        )}
         
         {isRendering && (
-          <div className="absolute inset-0 flex items-center justify-center bg-white/20 backdrop-blur-[1px] z-20 pointer-events-none">
-            <div className="flex flex-col items-center gap-4">
-              <div className="w-12 h-1 border-4 border-black border-t-transparent animate-spin"></div>
-              <span className="text-[10px] font-mono font-black uppercase tracking-widest text-black">Calculating Texture</span>
+          <div className={`absolute inset-0 flex items-center justify-center z-20 pointer-events-none ${hasPreview ? '' : 'bg-white/20 backdrop-blur-[1px]'}`}>
+            <div className="flex flex-col items-center gap-4 bg-white border border-black px-6 py-4">
+              <div className="w-40 h-1 bg-black/10">
+                <div className="h-full bg-black transition-[width] duration-100" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+              </div>
+              <span className="text-[10px] font-mono font-black uppercase tracking-widest text-black">
+                {hasPreview ? 'Refining Texture' : 'Calculating Texture'} {Math.round(progress * 100)}%
+              </span>
             </div>
           </div>
         )}
@@ -214,6 +161,15 @@ const GrainCanvas: React.FC<GrainCanvasProps> = ({ settings, onCanvasReady }) =>
           <span className="text-[8px] text-zinc-400 font-mono font-bold uppercase tracking-widest">Dimensions</span>
           <span className="text-[11px] text-black font-mono font-bold uppercase">{settings.width} × {settings.height}</span>
         </div>
+        {previewRatio > 1 && (
+          <>
+            <div className="w-px h-6 bg-black/10 self-center"></div>
+            <div className="flex flex-col">
+              <span className="text-[8px] text-zinc-400 font-mono font-bold uppercase tracking-widest">Preview</span>
+              <span className="text-[11px] text-black font-mono font-bold uppercase">1:{previewRatio.toFixed(1)}</span>
+            </div>
+          </>
+        )}
         <div className="w-px h-6 bg-black/10 self-center"></div>
         <div className="flex flex-col">
           <span className="text-[8px] text-zinc-400 font-mono font-bold uppercase tracking-widest">Density</span>
@@ -0,0 +1,89 @@
+import React from 'react';
+import { GrainSettings, GrainLayer, APP_LIMITS } from '../types';
+import { getLayerStack, setLayerStack } from '../engine/layers';
+
+interface LayerStackProps {
+  settings: GrainSettings;
+  // Index into the stack, 0 being the bottom layer
+  active: number;
+  onSelect: (index: number) => void;
+  onChange: (settings: GrainSettings, active: number) => void;
+}
+
+// Layer list, top of the stack first like in an image editor. The sidebar controls edit the
+// selected layer; size, background and output mode are shared by the whole stack.
+const LayerStack: React.FC<LayerStackProps> = ({ settings, active, onSelect, onChange }) => {
+  const stack = getLayerStack(settings);
+  const full = stack.length >= APP_LIMITS.MAX_LAYERS;
+
+  const commit = (next: GrainLayer[], nextActive: number) => onChange(setLayerStack(settings, next), nextActive);
+  const update = (index: number, patch: Partial<GrainLayer>) =>
+    commit(stack.map((layer, i) => (i === index ? { ...layer, ...patch } : layer)), active);
+  const move = (index: number, by: number) => {
+    const next = [...stack];
+    const [layer] = next.splice(index, 1);
+    next.splice(index + by, 0, layer);
+    commit(next, index + by);
+  };
+  const duplicate = (index: number) => {
+    const next = [...stack];
+    next.splice(index + 1, 0, { ...stack[index], name: `${stack[index].name} copy` });
+    commit(next, index + 1);
+  };
+  const remove = (index: number) => commit(stack.filter((_, i) => i !== index), Math.max(0, Math.min(active, stack.length - 2)));
+  // New layers start as a fresh seed of the selected one, so they add grain rather than repeat it
+  const add = () => {
+    const source = stack[active];
+    const layer = { name: `Layer ${stack.length + 1}`, visible: true, settings: { ...source.settings, seed: Math.floor(Math.random() * 100000) } };
+    commit([...stack, layer], stack.length);
+  };
+
+  const iconButton = 'px-1.5 text-[10px] font-mono font-bold hover:bg-zinc-200 disabled:opacity-20 disabled:pointer-events-none';
+
+  return (
+    <div className="space-y-3">
+      <div className="border border-black">
+        {stack.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+          <div
+            key={index}
+            onClick={() => onSelect(index)}
+            className={`flex items-center gap-2 px-2 py-2 border-b border-zinc-200 last:border-b-0 cursor-pointer transition-colors ${
+              index === active ? 'bg-zinc-100' : 'hover:bg-zinc-50'
+            }`}
+          >
+            <button
+              onClick={e => { e.stopPropagation(); update(index, { visible: !layer.visible }); }}
+              className={`w-4 text-[10px] font-mono font-bold ${layer.visible ? '' : 'opacity-30'}`}
+              title={layer.visible ? 'Hide layer' : 'Show layer'}
+            >
+              {layer.visible ? '●' : '○'}
+            </button>
+            <span className="w-3 h-3 border border-black shrink-0" style={{ background: layer.settings.grainColor }} />
+            <input
+              value={layer.name}
+              onChange={e => update(index, { name: e.target.value })}
+              onFocus={() => onSelect(index)}
+              className={`flex-1 min-w-0 bg-transparent text-[9px] font-mono uppercase tracking-widest focus:outline-none ${index === active ? 'font-bold' : ''}`}
+            />
+            <span className="text-[8px] font-mono opacity-40 shrink-0">{layer.settings.texture}</span>
+            <div className="flex shrink-0" onClick={e => e.stopPropagation()}>
+              <button onClick={() => move(index, 1)} disabled={index === stack.length - 1} className={iconButton} title="Move up">↑</button>
+              <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButton} title="Move down">↓</button>
+              <button onClick={() => duplicate(index)} disabled={full} className={iconButton} title="Duplicate layer">⧉</button>
+              <button onClick={() => remove(index)} disabled={stack.length <= 1} className={iconButton} title="Delete layer">✕</button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={add}
+        disabled={full}
+        className="w-full py-2 border border-black text-[8px] font-mono font-bold uppercase tracking-wider hover:bg-zinc-50 disabled:opacity-30"
+      >
+        + LAYER
+      </button>
+    </div>
+  );
+};
+
+export default LayerStack;
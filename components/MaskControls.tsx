@@ -0,0 +1,110 @@
+import React from 'react';
+import { GrainMask, MaskShape, DEFAULT_SETTINGS } from '../types';
+import { MaskBrush } from './MaskPainter';
+import { SetSettingsOptions } from '../hooks/useSettingsHistory';
+
+interface MaskControlsProps {
+  mask: GrainMask;
+  onChange: (mask: GrainMask, options?: SetSettingsOptions) => void;
+  painting: boolean;
+  onPaintingChange: (painting: boolean) => void;
+  brush: MaskBrush;
+  onBrushChange: (brush: MaskBrush) => void;
+}
+
+// Clean center with the grain building up towards the corners
+const VIGNETTE: Partial<GrainMask> = { shape: MaskShape.RADIAL, centerX: 0.5, centerY: 0.5, start: 0.35, end: 1, from: 0.15, to: 1 };
+
+const SHAPES = [
+  { label: 'None', patch: { shape: MaskShape.NONE } },
+  { label: 'Linear', patch: { shape: MaskShape.LINEAR } },
+  { label: 'Radial', patch: { shape: MaskShape.RADIAL } },
+  { label: 'Vignette', patch: VIGNETTE },
+];
+
+type MaskNumber = 'angle' | 'centerX' | 'centerY' | 'start' | 'end' | 'from' | 'to';
+
+const SLIDERS: Record<MaskShape, { key: MaskNumber; label: string; max: number; step: number }[]> = {
+  [MaskShape.NONE]: [],
+  [MaskShape.LINEAR]: [
+    { key: 'angle', label: 'Angle', max: 360, step: 1 },
+    { key: 'start', label: 'Ramp Start', max: 1, step: 0.01 },
+    { key: 'end', label: 'Ramp End', max: 1, step: 0.01 },
+    { key: 'from', label: 'Density Before', max: 1, step: 0.01 },
+    { key: 'to', label: 'Density After', max: 1, step: 0.01 },
+  ],
+  [MaskShape.RADIAL]: [
+    { key: 'centerX', label: 'Center X', max: 1, step: 0.01 },
+    { key: 'centerY', label: 'Center Y', max: 1, step: 0.01 },
+    { key: 'start', label: 'Inner Radius', max: 1, step: 0.01 },
+    { key: 'end', label: 'Outer Radius', max: 1, step: 0.01 },
+    { key: 'from', label: 'Density Inside', max: 1, step: 0.01 },
+    { key: 'to', label: 'Density Outside', max: 1, step: 0.01 },
+  ],
+};
+
+const isVignette = (mask: GrainMask) =>
+  (Object.keys(VIGNETTE) as (keyof GrainMask)[]).every(key => mask[key] === VIGNETTE[key]);
+
+const MaskControls: React.FC<MaskControlsProps> = ({ mask, onChange, painting, onPaintingChange, brush, onBrushChange }) => {
+  const slider = (label: string, value: number, max: number, step: number, onValue: (value: number) => void) => (
+    <div key={label} className="space-y-2">
+      <div className="flex justify-between items-baseline">
+        <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">{label}</label>
+        <span className="text-[10px] font-mono font-bold">{value.toFixed(step >= 1 ? 0 : 2)}</span>
+      </div>
+      <input type="range" min="0" max={max} step={step} value={value} onChange={e => onValue(Number(e.target.value))} className="w-full" />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-4 border border-black">
+        {SHAPES.map(({ label, patch }) => {
+          const active = label === 'Vignette' ? isVignette(mask) : mask.shape === patch.shape && !(patch.shape === MaskShape.RADIAL && isVignette(mask));
+          return (
+            <button
+              key={label}
+              onClick={() => onChange({ ...mask, ...patch })}
+              className={`py-2 text-[8px] font-mono font-bold uppercase tracking-wider border-r border-black last:border-r-0 transition-colors ${
+                active ? 'bg-black text-white' : 'hover:bg-zinc-50'
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      {SLIDERS[mask.shape].map(({ key, label, max, step }) => slider(label, mask[key], max, step, value => onChange({ ...mask, [key]: value }, { coalesce: true })))}
+
+      <div className="space-y-4">
+        <div className="flex border border-black">
+          <button
+            onClick={() => onPaintingChange(!painting)}
+            className={`flex-1 py-2 text-[9px] font-mono font-bold uppercase tracking-widest transition-colors ${painting ? 'bg-black text-white' : 'hover:bg-zinc-50'}`}
+            title="Paint grain density directly on the preview"
+          >
+            {painting ? 'PAINTING…' : 'PAINT DENSITY'}
+          </button>
+          <button
+            onClick={() => onChange({ ...mask, painted: DEFAULT_SETTINGS.mask.painted })}
+            disabled={!mask.painted}
+            className="px-3 border-l border-black text-[9px] font-mono font-bold uppercase tracking-widest hover:bg-zinc-50 disabled:opacity-30"
+          >
+            CLEAR
+          </button>
+        </div>
+        {painting && (
+          <>
+            {slider('Brush Size', brush.size, 0.5, 0.01, size => onBrushChange({ ...brush, size: Math.max(0.01, size) }))}
+            {slider('Brush Density', brush.density, 1, 0.01, density => onBrushChange({ ...brush, density }))}
+            <p className="text-[9px] font-mono uppercase tracking-widest opacity-50">Red marks where grain is held back. Density 0 erases grain, 1 restores it.</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MaskControls;
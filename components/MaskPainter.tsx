@@ -0,0 +1,119 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { GrainMask, PaintedMask } from '../types';
+import { decodePaintedMask, encodePaintedMask, getPaintedMaskSize } from '../engine/mask';
+
+export interface MaskBrush {
+  // Diameter as a fraction of the canvas' long side
+  size: number;
+  // Density the brush paints towards: 0 removes grain, 1 restores it
+  density: number;
+}
+
+interface MaskPainterProps {
+  mask: GrainMask;
+  width: number;
+  height: number;
+  brush: MaskBrush;
+  onCommit: (painted: PaintedMask | null) => void;
+}
+
+// Share of the way to the brush density each dab moves a pixel at its center
+const FLOW = 0.5;
+
+// Painted densities at the current canvas aspect; masks painted at another aspect are stretched
+const loadDensities = (painted: PaintedMask | null, width: number, height: number) => {
+  const densities = new Uint8Array(width * height).fill(255);
+  const source = painted ? decodePaintedMask(painted) : null;
+  if (!painted || !source) return densities;
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(painted.height - 1, Math.floor(((y + 0.5) * painted.height) / height));
+    for (let x = 0; x < width; x++) {
+      densities[y * width + x] = source[sy * painted.width + Math.min(painted.width - 1, Math.floor(((x + 0.5) * painted.width) / width))];
+    }
+  }
+  return densities;
+};
+
+// Brush over the preview: strokes are drawn into a low-res density bitmap shown as a red
+// overlay where grain is held back, and committed to the recipe when the stroke ends
+const MaskPainter: React.FC<MaskPainterProps> = ({ mask, width, height, brush, onCommit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const size = useMemo(() => getPaintedMaskSize(width, height), [width, height]);
+  const densities = useRef(new Uint8Array(0));
+  const last = useRef<{ x: number; y: number } | null>(null);
+
+  const draw = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const image = ctx.createImageData(size.width, size.height);
+    const d = densities.current;
+    for (let i = 0, o = 0; i < d.length; i++, o += 4) {
+      image.data[o] = 255;
+      image.data[o + 1] = 40;
+      image.data[o + 2] = 40;
+      image.data[o + 3] = (255 - d[i]) * 0.6;
+    }
+    ctx.putImageData(image, 0, 0);
+  };
+
+  // Reload when the mask changes outside a stroke, e.g. undo or another layer
+  useEffect(() => {
+    densities.current = loadDensities(mask.painted, size.width, size.height);
+    draw();
+  }, [mask.painted, size]);
+
+  const toMask = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) / rect.width) * size.width, y: ((e.clientY - rect.top) / rect.height) * size.height };
+  };
+
+  const dab = (cx: number, cy: number) => {
+    const radius = Math.max(1, (brush.size * Math.max(size.width, size.height)) / 2);
+    const target = brush.density * 255;
+    const d = densities.current;
+    for (let y = Math.max(0, Math.floor(cy - radius)); y < Math.min(size.height, Math.ceil(cy + radius)); y++) {
+      for (let x = Math.max(0, Math.floor(cx - radius)); x < Math.min(size.width, Math.ceil(cx + radius)); x++) {
+        const t = Math.hypot(x + 0.5 - cx, y + 0.5 - cy) / radius;
+        if (t >= 1) continue;
+        // Soft round tip
+        const falloff = 1 - t * t * (3 - 2 * t);
+        const i = y * size.width + x;
+        d[i] = Math.round(d[i] + (target - d[i]) * falloff * FLOW);
+      }
+    }
+  };
+
+  // Dabs every quarter radius along the stroke, so fast moves don't leave gaps
+  const strokeTo = (point: { x: number; y: number }) => {
+    const from = last.current ?? point;
+    const spacing = Math.max(0.5, (brush.size * Math.max(size.width, size.height)) / 8);
+    const steps = Math.max(1, Math.ceil(Math.hypot(point.x - from.x, point.y - from.y) / spacing));
+    for (let s = 1; s <= steps; s++) dab(from.x + ((point.x - from.x) * s) / steps, from.y + ((point.y - from.y) * s) / steps);
+    last.current = point;
+    draw();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size.width}
+      height={size.height}
+      className="absolute inset-0 w-full h-full z-10 cursor-crosshair touch-none"
+      onPointerDown={e => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        last.current = null;
+        strokeTo(toMask(e));
+      }}
+      onPointerMove={e => {
+        if (last.current) strokeTo(toMask(e));
+      }}
+      onPointerUp={() => {
+        if (!last.current) return;
+        last.current = null;
+        onCommit(encodePaintedMask(size.width, size.height, densities.current));
+      }}
+    />
+  );
+};
+
+export default MaskPainter;
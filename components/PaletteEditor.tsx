@@ -0,0 +1,76 @@
+import React from 'react';
+import { PaletteColor, APP_LIMITS } from '../types';
+import { SetSettingsOptions } from '../hooks/useSettingsHistory';
+
+interface PaletteEditorProps {
+  palette: PaletteColor[];
+  onChange: (palette: PaletteColor[], options?: SetSettingsOptions) => void;
+}
+
+export const PALETTE_PRESETS: { name: string; palette: PaletteColor[] }[] = [
+  { name: 'RISO', palette: [{ color: '#FF48B0', weight: 1 }, { color: '#0078BF', weight: 1 }] },
+  { name: 'DUOTONE', palette: [{ color: '#1A1A1A', weight: 3 }, { color: '#FF6C2F', weight: 1 }] },
+  { name: 'CMY', palette: [{ color: '#00AEEF', weight: 1 }, { color: '#EC008C', weight: 1 }, { color: '#FFF200', weight: 1 }] },
+];
+
+// Ink list for PALETTE mode: each particle picks one color with probability proportional to its weight
+const PaletteEditor: React.FC<PaletteEditorProps> = ({ palette, onChange }) => {
+  const total = palette.reduce((sum, p) => sum + p.weight, 0);
+  // Only the color pickers and weight sliders edit entries, both continuously
+  const update = (index: number, patch: Partial<PaletteColor>) =>
+    onChange(palette.map((p, i) => (i === index ? { ...p, ...patch } : p)), { coalesce: true });
+
+  return (
+    <div className="space-y-3">
+      <div className="border border-black">
+        {palette.map((entry, i) => (
+          <div key={i} className="flex items-center gap-3 px-3 py-2 border-b border-zinc-200 last:border-b-0">
+            <input
+              type="color"
+              value={entry.color}
+              onChange={e => update(i, { color: e.target.value.toUpperCase() })}
+              className="w-8 h-6 bg-transparent cursor-pointer border border-black p-0.5 shrink-0"
+            />
+            <input
+              type="range" min="0" max="10" step="0.5"
+              value={entry.weight}
+              onChange={e => update(i, { weight: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-8 text-right text-[9px] font-mono font-bold">
+              {total > 0 ? Math.round((entry.weight / total) * 100) : 0}%
+            </span>
+            <button
+              onClick={() => onChange(palette.filter((_, j) => j !== i))}
+              disabled={palette.length <= 1}
+              className="font-mono font-bold text-[10px] px-1 hover:bg-zinc-100 disabled:opacity-20"
+              title="Remove color"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange([...palette, { color: '#000000', weight: 1 }])}
+          disabled={palette.length >= APP_LIMITS.MAX_PALETTE_COLORS}
+          className="flex-1 py-2 border border-black text-[8px] font-mono font-bold uppercase tracking-wider hover:bg-zinc-50 disabled:opacity-30"
+        >
+          + COLOR
+        </button>
+        {PALETTE_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => onChange(preset.palette)}
+            className="flex-1 py-2 border border-black text-[8px] font-mono font-bold uppercase tracking-wider hover:bg-zinc-50"
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PaletteEditor;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { GrainSettings } from '../types';
+
+interface RecipeDiffProps {
+  settings: GrainSettings;
+  patch: Partial<GrainSettings>;
+}
+
+const formatValue = (value: unknown) => {
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  if (Array.isArray(value)) return `[${value.map(v => (typeof v === 'object' && v ? Object.values(v).join(':') : Number(v).toFixed(2))).join(' ')}]`;
+  return String(value);
+};
+
+// Fields a recipe would change, with old → new values and the signed change for numbers
+export const getSettingsChanges = (settings: GrainSettings, patch: Partial<GrainSettings>) =>
+  (Object.keys(patch) as (keyof GrainSettings)[])
+    .filter(key => JSON.stringify(patch[key]) !== JSON.stringify(settings[key]))
+    .map(key => {
+      const from = settings[key];
+      const to = patch[key];
+      const delta = typeof from === 'number' && typeof to === 'number' ? to - from : null;
+      return { key, from, to, delta };
+    });
+
+const RecipeDiff: React.FC<RecipeDiffProps> = ({ settings, patch }) => {
+  const changes = getSettingsChanges(settings, patch);
+  if (changes.length === 0) {
+    return <p className="text-[9px] font-mono uppercase tracking-widest opacity-50">No changes</p>;
+  }
+
+  return (
+    <table className="w-full font-mono text-[9px] uppercase tracking-wider">
+      <tbody>
+        {changes.map(({ key, from, to, delta }) => (
+          <tr key={key} className="border-t border-zinc-200 first:border-t-0">
+            <td className="py-1 pr-2 opacity-50">{key}</td>
+            <td className="py-1 text-right whitespace-nowrap">
+              {formatValue(from)} → <span className="font-bold">{formatValue(to)}</span>
+            </td>
+            <td className="py-1 pl-2 text-right w-12 opacity-60">
+              {delta !== null && `${delta > 0 ? '+' : ''}${formatValue(delta)}`}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default RecipeDiff;
@@ -0,0 +1,218 @@
+import React, { useRef, useState } from 'react';
+import { GrainSettings } from '../types';
+import { LibraryEntry, LIBRARY_FILE_EXTENSION, matchesSearch } from '../services/libraryService';
+import { downloadBlob } from '../services/exportService';
+import { useRecipeLibrary } from '../hooks/useRecipeLibrary';
+
+interface RecipeLibraryProps {
+  library: ReturnType<typeof useRecipeLibrary>;
+  settings: GrainSettings;
+  onApply: (entry: LibraryEntry) => void;
+}
+
+const parseTags = (text: string) => text.split(',');
+
+const RecipeLibrary: React.FC<RecipeLibraryProps> = ({ library, settings, onApply }) => {
+  const { entries, error } = library;
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // Entry being renamed, with its draft name and tags
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = entries.filter(entry => (!favoritesOnly || entry.favorite) && matchesSearch(entry, query));
+
+  // Runs a library action, reporting failures (storage errors, bad files) in an alert
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      alert(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    setSaving(true);
+    try {
+      await library.save({ name, tags: parseTags(tags), settings });
+      setName('');
+      setTags('');
+    } finally {
+      setSaving(false);
+    }
+  }, 'Failed to save the recipe.');
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const { id, name: nextName, tags: nextTags } = editing;
+    setEditing(null);
+    run(() => library.update(id, { name: nextName, tags: parseTags(nextTags) }), 'Failed to rename the recipe.');
+  };
+
+  const handleImport = (file: File) => run(async () => {
+    const { added, updated, skipped, issues } = await library.importFile(file);
+    const summary = `Imported ${added} new and ${updated} updated recipes` + (skipped ? `; kept ${skipped} newer local copies.` : '.');
+    alert(issues.length ? `${summary}\n\nSome values were adjusted:\n${issues.join('\n')}` : summary);
+  }, 'Failed to import the library.');
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(library.exportAll(), `Grainy_Library_${date}${LIBRARY_FILE_EXTENSION}`);
+  };
+
+  const inputClass = 'flex-1 bg-transparent border-none py-2 text-sm font-mono focus:outline-none min-w-0';
+  const smallButtonClass = 'px-3 text-[9px] font-mono font-bold uppercase tracking-widest hover:bg-black hover:text-white transition-colors disabled:opacity-30';
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-[9px] font-mono uppercase tracking-widest text-red-600">{error}</p>}
+
+      <div className="space-y-2">
+        <div className="flex border-b border-black">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSave()}
+            placeholder="Name this style"
+            className={inputClass}
+          />
+          <button onClick={handleSave} disabled={saving || !!error} className={smallButtonClass}>
+            {saving ? '...' : 'SAVE'}
+          </button>
+        </div>
+        <input
+          type="text"
+          value={tags}
+          onChange={e => setTags(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+          placeholder="Tags, comma separated"
+          className="w-full bg-transparent border-b border-zinc-200 py-2 text-[11px] font-mono focus:outline-none focus:border-black"
+        />
+      </div>
+
+      {entries.length > 0 && (
+        <div className="flex border border-black">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search name or tag"
+            className={`${inputClass} px-3`}
+          />
+          <button
+            onClick={() => setFavoritesOnly(f => !f)}
+            title="Favorites only"
+            className={`px-3 text-sm border-l border-black transition-colors ${favoritesOnly ? 'bg-black text-white' : 'hover:bg-zinc-50'}`}
+          >★</button>
+        </div>
+      )}
+
+      {visible.length > 0 && (
+        <div className="border border-black max-h-96 overflow-y-auto">
+          {visible.map(entry => (
+            <div key={entry.id} className="flex items-stretch border-b border-zinc-200 last:border-b-0">
+              {editing?.id === entry.id ? (
+                <div className="flex-1 p-3 space-y-2 min-w-0">
+                  <input
+                    autoFocus
+                    type="text"
+                    value={editing.name}
+                    onChange={e => setEditing({ ...editing, name: e.target.value })}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitEdit();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    className="w-full bg-transparent border-b border-black py-1 text-[11px] font-mono focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    value={editing.tags}
+                    onChange={e => setEditing({ ...editing, tags: e.target.value })}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitEdit();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    placeholder="Tags, comma separated"
+                    className="w-full bg-transparent border-b border-zinc-200 py-1 text-[10px] font-mono focus:outline-none focus:border-black"
+                  />
+                  <div className="flex gap-3">
+                    <button onClick={commitEdit} className="text-[9px] font-mono font-bold uppercase tracking-widest hover:underline">OK</button>
+                    <button onClick={() => setEditing(null)} className="text-[9px] font-mono font-bold uppercase tracking-widest opacity-50 hover:underline">CANCEL</button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => onApply(entry)}
+                  className="flex-1 flex items-center gap-3 p-3 text-left min-w-0 hover:bg-zinc-50 transition-colors"
+                >
+                  {entry.thumbnail
+                    ? <img src={entry.thumbnail} alt="" className="w-12 h-12 border border-black shrink-0 object-cover" />
+                    : <span className="w-12 h-12 border border-black shrink-0" style={{ backgroundColor: entry.settings.bgColor }} />}
+                  <span className="min-w-0">
+                    <span className="block text-[10px] font-mono font-bold uppercase tracking-wider truncate">{entry.name}</span>
+                    <span className="block text-[8px] font-mono uppercase tracking-widest opacity-50 truncate">
+                      {entry.tags.length ? entry.tags.join(' · ') : `${entry.settings.texture} · Seed ${entry.settings.seed}`}
+                    </span>
+                  </span>
+                </button>
+              )}
+              <div className="flex flex-col border-l border-zinc-200">
+                <button
+                  onClick={() => run(() => library.update(entry.id, { favorite: !entry.favorite }), 'Failed to update the recipe.')}
+                  title={entry.favorite ? 'Unfavorite' : 'Favorite'}
+                  className={`flex-1 px-3 text-sm ${entry.favorite ? '' : 'opacity-20 hover:opacity-100'}`}
+                >★</button>
+                <button
+                  onClick={() => setEditing({ id: entry.id, name: entry.name, tags: entry.tags.join(', ') })}
+                  title="Rename and tag"
+                  className="flex-1 px-3 text-[10px] font-mono font-bold opacity-50 hover:opacity-100"
+                >✎</button>
+                <button
+                  onClick={() => {
+                    if (confirm(`Delete "${entry.name}" from the library?`)) run(() => library.remove(entry.id), 'Failed to delete the recipe.');
+                  }}
+                  title="Delete"
+                  className="flex-1 px-3 text-[10px] font-mono font-bold opacity-50 hover:opacity-100"
+                >✕</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {entries.length > 0 && visible.length === 0 && (
+        <p className="text-[9px] font-mono uppercase tracking-widest opacity-50">No saved recipes match</p>
+      )}
+
+      <div className="grid grid-cols-2 border border-black">
+        <button
+          onClick={handleExport}
+          disabled={entries.length === 0}
+          className="py-3 text-[9px] font-mono font-bold uppercase tracking-widest border-r border-black hover:bg-black hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-black"
+        >EXPORT LIBRARY</button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={!!error}
+          className="py-3 text-[9px] font-mono font-bold uppercase tracking-widest hover:bg-black hover:text-white transition-colors disabled:opacity-30"
+        >IMPORT LIBRARY</button>
+      </div>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default RecipeLibrary;
@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import { evaluateCurve } from '../engine/blend';
+import { SetSettingsOptions } from '../hooks/useSettingsHistory';
+
+interface ResponseCurveEditorProps {
+  points: number[];
+  onChange: (points: number[], options?: SetSettingsOptions) => void;
+}
+
+export const RESPONSE_PRESETS = [
+  { name: 'FLAT', points: [1, 1, 1, 1, 1] },
+  { name: 'FILM', points: [0.35, 0.8, 1, 0.8, 0.35] },
+  { name: 'SHADOWS', points: [1, 0.85, 0.55, 0.3, 0.15] },
+  { name: 'HIGHLIGHTS', points: [0.15, 0.3, 0.55, 0.85, 1] },
+];
+
+const WIDTH = 240;
+const HEIGHT = 96;
+const PAD = 6;
+
+const toX = (i: number, count: number) => PAD + (i / Math.max(1, count - 1)) * (WIDTH - PAD * 2);
+const toY = (value: number) => PAD + (1 - value) * (HEIGHT - PAD * 2);
+
+const ResponseCurveEditor: React.FC<ResponseCurveEditorProps> = ({ points, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const valueAt = (clientY: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    const y = ((clientY - rect.top) / rect.height) * HEIGHT;
+    return Math.min(1, Math.max(0, 1 - (y - PAD) / (HEIGHT - PAD * 2)));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+    const next = [...points];
+    next[dragIndex] = parseFloat(valueAt(e.clientY).toFixed(2));
+    onChange(next, { coalesce: true });
+  };
+
+  const path = Array.from({ length: 49 }, (_, i) => {
+    const x = i / 48;
+    return `${i === 0 ? 'M' : 'L'}${(PAD + x * (WIDTH - PAD * 2)).toFixed(1)},${toY(evaluateCurve(points, x)).toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <div className="space-y-3">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full border border-black bg-[linear-gradient(to_right,#000,#fff)] touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerLeave={() => setDragIndex(null)}
+      >
+        <rect x="0" y="0" width={WIDTH} height={HEIGHT} fill="rgba(255,255,255,0.85)" />
+        <path d={path} fill="none" stroke="black" strokeWidth="1.5" />
+        {points.map((value, i) => (
+          <rect
+            key={i}
+            x={toX(i, points.length) - 4}
+            y={toY(value) - 4}
+            width="8"
+            height="8"
+            className={`cursor-ns-resize ${dragIndex === i ? 'fill-white' : 'fill-black'}`}
+            stroke="black"
+            onPointerDown={e => {
+              (e.target as Element).setPointerCapture?.(e.pointerId);
+              setDragIndex(i);
+            }}
+          />
+        ))}
+      </svg>
+      <div className="flex justify-between text-[8px] font-mono uppercase tracking-widest opacity-50">
+        <span>Shadows</span>
+        <span>Highlights</span>
+      </div>
+      <div className="grid grid-cols-4 border border-black">
+        {RESPONSE_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => onChange(preset.points)}
+            className="py-2 text-[8px] font-mono font-bold uppercase tracking-wider border-r border-black last:border-r-0 hover:bg-black hover:text-white transition-colors"
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ResponseCurveEditor;
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { GrainSettings } from '../types';
+import { GrainBuffer } from '../engine/grainEngine';
+import { ScanMatch, analyzeScan } from '../services/analysisService';
+import { startRender } from '../services/renderService';
+import RecipeDiff from './RecipeDiff';
+import BufferView from './BufferView';
+
+interface ScanMatchDialogProps {
+  file: File;
+  // The selected layer as the sidebar shows it; the match is compared against and applied to it
+  settings: GrainSettings;
+  onApply: (patch: Partial<GrainSettings>) => void;
+  onClose: () => void;
+}
+
+// Analyzes the scan as soon as it opens, then renders the estimate at the crop's size for comparison
+const ScanMatchDialog: React.FC<ScanMatchDialogProps> = ({ file, settings, onApply, onClose }) => {
+  const [match, setMatch] = useState<ScanMatch | null>(null);
+  const [rendered, setRendered] = useState<GrainBuffer | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    analyzeScan(file, p => !cancelled && setProgress(p))
+      .then(result => !cancelled && setMatch(result))
+      .catch(err => {
+        console.error('Failed to analyze scan', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to analyze the scan.');
+      });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  useEffect(() => {
+    if (!match) return;
+    const { width, height } = match.reference;
+    // Just the matched style, without the layers stacked over it, to compare with the scan
+    const job = startRender({ ...settings, ...match.analysis.settings, width, height, layers: [] });
+    job.promise.then(buffer => buffer && setRendered(buffer)).catch(err => console.error('Failed to render match', err));
+    return job.cancel;
+    // Only a new estimate re-renders; edits to the canvas behind the dialog don't change the comparison
+  }, [match]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="w-[560px] bg-white border-2 border-black shadow-[20px_20px_0px_rgba(0,0,0,0.1)]" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b-4 border-black flex justify-between items-baseline">
+          <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter">Match Scan</h2>
+          <button onClick={onClose} className="font-mono font-bold text-sm hover:bg-zinc-100 px-2">✕</button>
+        </div>
+
+        <div className="p-8 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Reference</label>
+              <BufferView buffer={match?.reference ?? null} className="border border-black" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Estimate</label>
+              <BufferView buffer={rendered} className="border border-black" />
+            </div>
+          </div>
+
+          {error ? (
+            <div className="border-2 border-red-600 p-3 text-[10px] font-mono text-red-600 uppercase tracking-widest">{error}</div>
+          ) : match ? (
+            <div className="space-y-3">
+              <div className="flex justify-between items-baseline">
+                <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Estimated Settings</label>
+                <span className="text-[10px] font-mono font-bold">{Math.round(match.analysis.confidence * 100)}% MATCH</span>
+              </div>
+              <div className="max-h-40 overflow-y-auto">
+                <RecipeDiff settings={settings} patch={match.analysis.settings} />
+              </div>
+            </div>
+          ) : (
+            <p className="text-[10px] font-mono font-bold uppercase tracking-widest">Analyzing {file.name} · {Math.round(progress * 100)}%</p>
+          )}
+
+          <p className="text-[9px] font-mono uppercase tracking-widest opacity-50">
+            The scan is read 1:1 · scan at your output resolution for a matching grain size. Runs locally, nothing is uploaded.
+          </p>
+        </div>
+
+        <div className="p-6 border-t-4 border-black">
+          <button
+            onClick={() => match && onApply(match.analysis.settings)}
+            disabled={!match}
+            className="w-full bg-black text-white font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 hover:bg-white hover:text-black border-2 border-black transition-all active:scale-[0.98] disabled:opacity-50"
+          >
+            APPLY ESTIMATE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScanMatchDialog;
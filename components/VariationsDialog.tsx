@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GrainSettings } from '../types';
+import { GrainBuffer } from '../engine/grainEngine';
+import { BaseImage } from '../services/imageService';
+import { downloadBlob } from '../services/exportService';
+import {
+  SWEEP_FIELDS, VARIATION_COUNTS, SweepField, SweepRange,
+  createVariations, getDefaultSweepRange, renderVariationThumbnail, exportVariations,
+} from '../services/variationService';
+import BufferView from './BufferView';
+
+interface VariationsDialogProps {
+  settings: GrainSettings;
+  baseImage: BaseImage | null;
+  onApply: (settings: GrainSettings) => void;
+  onClose: () => void;
+}
+
+const THUMBNAIL_SIZE = 160;
+
+// Contact sheet: click tiles to select them for the ZIP, APPLY puts one on the canvas
+const VariationsDialog: React.FC<VariationsDialogProps> = ({ settings, baseImage, onApply, onClose }) => {
+  const [field, setField] = useState<SweepField>('seed');
+  const [count, setCount] = useState(9);
+  const [range, setRange] = useState<SweepRange>(() => getDefaultSweepRange(settings, 'seed'));
+  const [batch, setBatch] = useState(0);
+  const [thumbnails, setThumbnails] = useState<(GrainBuffer | null)[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const variations = useMemo(
+    () => createVariations(settings, field, count, range, batch),
+    [settings, field, count, range, batch]
+  );
+
+  // One thumbnail at a time, so a 16-tile sheet doesn't spin up 16 workers
+  useEffect(() => {
+    let job: ReturnType<typeof renderVariationThumbnail> | null = null;
+    let cancelled = false;
+    setThumbnails(variations.map(() => null));
+    setSelected(new Set());
+    (async () => {
+      for (const [i, variation] of variations.entries()) {
+        job = renderVariationThumbnail(variation, THUMBNAIL_SIZE);
+        const buffer = await job.promise.catch(err => {
+          console.error('Failed to render variation', err);
+          return null;
+        });
+        if (cancelled) return;
+        setThumbnails(prev => prev.map((t, j) => (j === i ? buffer : t)));
+      }
+    })();
+    return () => {
+      cancelled = true;
+      job?.cancel();
+    };
+  }, [variations]);
+
+  const chooseField = (next: SweepField) => {
+    setField(next);
+    setRange(getDefaultSweepRange(settings, next));
+    setBatch(0);
+  };
+
+  const toggle = (index: number) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+
+  const handleExport = async () => {
+    const chosen = variations.filter((_, i) => selected.has(i));
+    setExporting(true);
+    setProgress(0);
+    try {
+      const zip = await exportVariations(chosen, baseImage, setProgress);
+      downloadBlob(zip, `Grainy_Variations_${settings.texture}_${field}.zip`);
+    } catch (err) {
+      console.error('Failed to export variations', err);
+      alert(err instanceof Error ? err.message : 'Failed to export the variations.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const sweep = SWEEP_FIELDS.find(f => f.field === field)!;
+  const columns = Math.sqrt(count);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="w-[720px] max-h-[95vh] flex flex-col bg-white border-2 border-black shadow-[20px_20px_0px_rgba(0,0,0,0.1)]" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b-4 border-black flex justify-between items-baseline">
+          <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter">Variations</h2>
+          <button onClick={onClose} className="font-mono font-bold text-sm hover:bg-zinc-100 px-2">✕</button>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto">
+          <div className="flex justify-between items-end gap-6">
+            <div className="space-y-3">
+              <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Vary</label>
+              <div className="flex border border-black">
+                {SWEEP_FIELDS.map(f => (
+                  <button
+                    key={f.field}
+                    onClick={() => chooseField(f.field)}
+                    className={`px-2 py-1 text-[9px] font-mono font-bold uppercase border-r border-black last:border-r-0 transition-colors ${field === f.field ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-3">
+              <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">Tiles</label>
+              <div className="flex border border-black">
+                {VARIATION_COUNTS.map(n => (
+                  <button
+                    key={n}
+                    onClick={() => setCount(n)}
+                    className={`px-2 py-1 text-[9px] font-mono font-bold border-r border-black last:border-r-0 transition-colors ${count === n ? 'bg-black text-white' : 'hover:bg-zinc-100'}`}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {field === 'seed' ? (
+            <button
+              onClick={() => setBatch(b => b + 1)}
+              className="text-[9px] font-mono font-bold underline hover:text-black hover:bg-zinc-100 px-1"
+            >
+              NEW SEEDS
+            </button>
+          ) : (
+            <div className="grid grid-cols-2 gap-6">
+              {(['from', 'to'] as const).map(end => (
+                <div key={end} className="space-y-2">
+                  <label className="text-[9px] font-mono uppercase tracking-widest opacity-50">{end}</label>
+                  <input
+                    type="number" min={sweep.min} max={sweep.max} step={sweep.step}
+                    value={range[end]}
+                    onChange={e => setRange(r => ({ ...r, [end]: Math.min(sweep.max, Math.max(sweep.min, Number(e.target.value))) }))}
+                    className="w-full bg-transparent border-b border-black py-2 text-sm font-mono focus:outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+            {variations.map((variation, i) => (
+              <div key={i} className="group relative">
+                <button
+                  onClick={() => toggle(i)}
+                  className={`block w-full border-2 transition-colors ${selected.has(i) ? 'border-black' : 'border-zinc-200 hover:border-zinc-400'}`}
+                  title="Select for export"
+                >
+                  <BufferView buffer={thumbnails[i]} />
+                </button>
+                <div className="flex justify-between items-center pt-1 text-[8px] font-mono uppercase tracking-widest">
+                  <span className={selected.has(i) ? 'font-bold' : 'opacity-60'}>{selected.has(i) ? '■ ' : ''}{variation.label}</span>
+                  <button
+                    onClick={() => onApply(variation.settings)}
+                    className="font-bold underline opacity-0 group-hover:opacity-100 hover:bg-zinc-100 px-1"
+                  >
+                    APPLY
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-[9px] font-mono uppercase tracking-widest opacity-50">
+            Tiles show a {THUMBNAIL_SIZE} px grain crop at 1:1 · exports render at {settings.width} × {settings.height} px with a recipe file per image
+          </p>
+        </div>
+
+        <div className="p-6 border-t-4 border-black">
+          <button
+            onClick={handleExport}
+            disabled={exporting || selected.size === 0}
+            className="w-full bg-black text-white font-mono font-bold uppercase text-[10px] tracking-[0.3em] py-4 hover:bg-white hover:text-black border-2 border-black transition-all active:scale-[0.98] disabled:opacity-50"
+          >
+            {exporting
+              ? `RENDERING ${Math.round(progress * 100)}%`
+              : selected.size === 0 ? 'SELECT TILES TO EXPORT' : `EXPORT ${selected.size} AS ZIP`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariationsDialog;
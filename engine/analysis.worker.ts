@@ -0,0 +1,22 @@
+import { GrainBuffer } from './grainEngine';
+import { GrainAnalysis, analyzeGrain } from './grainAnalysis';
+
+export interface AnalysisRequest {
+  scan: GrainBuffer;
+}
+
+export type AnalysisResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; analysis: GrainAnalysis }
+  | { type: 'error'; message: string };
+
+const post = (message: AnalysisResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<AnalysisRequest>) => {
+  try {
+    const analysis = analyzeGrain(e.data.scan, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', analysis });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Analysis failed' });
+  }
+};
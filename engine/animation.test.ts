@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, GrainSettings, GrainTexture } from '../types';
+import { GrainBuffer, renderGrain } from './grainEngine';
+import { blendKeyframes, getFrameKeys, getKeyframeSeed, planAnimation } from './animation';
+
+const settings = (patch: Partial<GrainSettings> = {}): GrainSettings => ({
+  ...DEFAULT_SETTINGS,
+  width: 128,
+  height: 96,
+  bgColor: '#808080',
+  texture: GrainTexture.GAUSSIAN,
+  intensity: 0.4,
+  ...patch,
+});
+
+// Mean and standard deviation of the red channel's offset from the still
+const offsetStats = (frame: GrainBuffer, still: GrainBuffer) => {
+  let sum = 0;
+  let squares = 0;
+  const n = frame.data.length / 4;
+  for (let i = 0; i < frame.data.length; i += 4) {
+    const d = frame.data[i] - still.data[i];
+    sum += d;
+    squares += d * d;
+  }
+  const mean = sum / n;
+  return { mean, deviation: Math.sqrt(squares / n - mean * mean) };
+};
+
+describe('planAnimation', () => {
+  it('fits a whole number of keyframes into a loop', () => {
+    const plan = planAnimation({ fps: 24, duration: 2, coherence: 0.5, loop: true });
+    expect(plan.frames).toBe(48);
+    expect(Number.isInteger(plan.keys)).toBe(true);
+    expect(plan.spacing * plan.keys).toBeCloseTo(48);
+  });
+
+  it('draws a fresh key every frame at zero coherence', () => {
+    expect(planAnimation({ fps: 12, duration: 1, coherence: 0, loop: true })).toEqual({ frames: 12, keys: 12, spacing: 1 });
+  });
+
+  it('renders one key past the last frame of a clip that does not loop', () => {
+    expect(planAnimation({ fps: 12, duration: 1, coherence: 0, loop: false }).keys).toBe(13);
+  });
+});
+
+describe('getFrameKeys', () => {
+  it('wraps the last keys of a loop back to keyframe 0', () => {
+    const plan = planAnimation({ fps: 24, duration: 1, coherence: 1, loop: true });
+    const last = getFrameKeys(plan, true, plan.frames - 1);
+    expect(last.to).toBe(0);
+    expect(last.weight).toBeGreaterThan(0);
+    expect(getFrameKeys(plan, true, 0)).toEqual({ from: 0, to: 1, weight: 0 });
+  });
+
+  it('ends a clip that does not loop on its last key', () => {
+    const plan = planAnimation({ fps: 24, duration: 1, coherence: 1, loop: false });
+    const last = getFrameKeys(plan, false, plan.frames - 1);
+    expect(last.to).toBe(plan.keys - 1);
+  });
+});
+
+describe('getKeyframeSeed', () => {
+  it('keeps the document seed for the first key', () => {
+    expect(getKeyframeSeed(1234, 0)).toBe(1234);
+    expect(getKeyframeSeed(1234, 1)).not.toBe(getKeyframeSeed(1234, 2));
+  });
+});
+
+describe('blendKeyframes', () => {
+  const still = renderGrain(settings({ intensity: 0 }));
+  const a = renderGrain(settings({ seed: 1 }));
+  const b = renderGrain(settings({ seed: 2 }));
+
+  it('returns the keyframes themselves at either end', () => {
+    expect(blendKeyframes(still, a, b, 0).data).toEqual(a.data);
+    expect(blendKeyframes(still, a, b, 1).data).toEqual(b.data);
+  });
+
+  it('keeps the average brightness steady between keyframes', () => {
+    const ends = [offsetStats(a, still).mean, offsetStats(b, still).mean];
+    for (const weight of [0.25, 0.5, 0.75]) {
+      const { mean } = offsetStats(blendKeyframes(still, a, b, weight), still);
+      expect(mean).toBeGreaterThan(Math.min(...ends) - 1);
+      expect(mean).toBeLessThan(Math.max(...ends) + 1);
+    }
+  });
+
+  it('keeps the grain contrast halfway between seeds', () => {
+    const { deviation } = offsetStats(blendKeyframes(still, a, b, 0.5), still);
+    expect(deviation / offsetStats(a, still).deviation).toBeGreaterThan(0.85);
+    expect(deviation / offsetStats(a, still).deviation).toBeLessThan(1.15);
+  });
+
+  it('writes into the buffer it is given', () => {
+    const out = { width: still.width, height: still.height, data: new Uint8ClampedArray(still.data.length) };
+    expect(blendKeyframes(still, a, b, 0.5, out)).toBe(out);
+  });
+});
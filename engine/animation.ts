@@ -0,0 +1,139 @@
+import { GrainBuffer } from './grainEngine';
+import { hashInt } from './random';
+
+export interface AnimationTiming {
+  fps: number;
+  duration: number; // seconds
+  // 0 draws a fresh seed every frame (strobing film grain), 1 morphs slowly between seeds (boiling)
+  coherence: number;
+  // The last frame leads back into the first, so the clip can repeat without a jump
+  loop: boolean;
+}
+
+export interface AnimationPlan {
+  frames: number;
+  // Distinct seeds rendered; every frame is a mix of two neighbouring keyframes
+  keys: number;
+  // Frames from one keyframe to the next, fractional when a loop has to come out even
+  spacing: number;
+}
+
+// At full coherence a seed lasts this many frames, half a second at 24 fps
+const MAX_KEY_SPACING = 12;
+
+export const planAnimation = ({ fps, duration, coherence, loop }: AnimationTiming): AnimationPlan => {
+  const frames = Math.max(1, Math.round(fps * duration));
+  const spacing = 1 + Math.min(1, Math.max(0, coherence)) * (MAX_KEY_SPACING - 1);
+  if (loop) {
+    // Whole number of keyframes across the clip, the last one wrapping to keyframe 0
+    const keys = Math.max(1, Math.round(frames / spacing));
+    return { frames, keys, spacing: frames / keys };
+  }
+  return { frames, keys: Math.floor((frames - 1) / spacing) + 2, spacing };
+};
+
+// Keyframe 0 keeps the document seed, so the first frame matches the still
+export const getKeyframeSeed = (seed: number, key: number) => (key === 0 ? seed : hashInt(seed * 7919 + key) % 100000);
+
+// Which two keyframes a frame sits between and how far along it is
+export const getFrameKeys = (plan: AnimationPlan, loop: boolean, frame: number) => {
+  const position = frame / plan.spacing;
+  const from = Math.floor(position);
+  const weight = position - from;
+  return loop
+    ? { from: from % plan.keys, to: (from + 1) % plan.keys, weight }
+    : { from, to: Math.min(from + 1, plan.keys - 1), weight };
+};
+
+// Side of the cells the grain's local mean is taken over, several grains wide
+const MEAN_CELL = 16;
+
+interface LocalMeans {
+  still: GrainBuffer;
+  cols: number;
+  rows: number;
+  // Mean offset from the still per cell and channel
+  data: Float32Array;
+}
+
+const meansCache = new WeakMap<GrainBuffer, LocalMeans>();
+
+// How far a keyframe's grain shifts each area from the still on average, i.e. its local brightness
+const getLocalMeans = (still: GrainBuffer, key: GrainBuffer): LocalMeans => {
+  const cached = meansCache.get(key);
+  if (cached && cached.still === still) return cached;
+  const { width, height } = still;
+  const cols = Math.ceil(width / MEAN_CELL);
+  const rows = Math.ceil(height / MEAN_CELL);
+  const data = new Float32Array(cols * rows * 4);
+  const counts = new Uint32Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / MEAN_CELL) * cols;
+    for (let x = 0; x < width; x++) {
+      const cell = row + Math.floor(x / MEAN_CELL);
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) data[cell * 4 + c] += key.data[i + c] - still.data[i + c];
+      counts[cell]++;
+    }
+  }
+  for (let cell = 0; cell < counts.length; cell++) {
+    for (let c = 0; c < 4; c++) data[cell * 4 + c] /= counts[cell];
+  }
+  const means = { still, cols, rows, data };
+  meansCache.set(key, means);
+  return means;
+};
+
+// Bilinear lookup between cell centres, so the mean has no blocky steps
+const sampleMeans = ({ cols, rows, data }: LocalMeans, x: number, y: number, out: Float32Array) => {
+  const cx = Math.min(cols - 1, Math.max(0, (x + 0.5) / MEAN_CELL - 0.5));
+  const cy = Math.min(rows - 1, Math.max(0, (y + 0.5) / MEAN_CELL - 0.5));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(cols - 1, x0 + 1);
+  const y1 = Math.min(rows - 1, y0 + 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  for (let c = 0; c < 4; c++) {
+    const top = data[(y0 * cols + x0) * 4 + c] * (1 - fx) + data[(y0 * cols + x1) * 4 + c] * fx;
+    const bottom = data[(y1 * cols + x0) * 4 + c] * (1 - fx) + data[(y1 * cols + x1) * 4 + c] * fx;
+    out[c] = top * (1 - fy) + bottom * fy;
+  }
+};
+
+// Mixes the grain of two keyframes over the grain-free still. The local mean of each keyframe
+// is blended linearly, so the frame keeps the still's brightness; the grain around that mean
+// follows a quarter circle (a² + b² = 1) so it keeps its contrast halfway between seeds.
+export const blendKeyframes = (still: GrainBuffer, a: GrainBuffer, b: GrainBuffer, weight: number, out?: GrainBuffer): GrainBuffer => {
+  const target = out ?? { width: still.width, height: still.height, data: new Uint8ClampedArray(still.data.length) };
+  const wa = Math.cos((weight * Math.PI) / 2);
+  const wb = Math.sin((weight * Math.PI) / 2);
+  const s = still.data;
+  const da = a.data;
+  const db = b.data;
+  const o = target.data;
+  if (weight <= 0 || a === b) {
+    o.set(da);
+    return target;
+  }
+  if (weight >= 1) {
+    o.set(db);
+    return target;
+  }
+  const meansA = getLocalMeans(still, a);
+  const meansB = getLocalMeans(still, b);
+  const ma = new Float32Array(4);
+  const mb = new Float32Array(4);
+  for (let y = 0, i = 0; y < still.height; y++) {
+    for (let x = 0; x < still.width; x++, i += 4) {
+      sampleMeans(meansA, x, y, ma);
+      sampleMeans(meansB, x, y, mb);
+      for (let c = 0; c < 4; c++) {
+        const k = i + c;
+        const mean = (1 - weight) * ma[c] + weight * mb[c];
+        o[k] = s[k] + mean + wa * (da[k] - s[k] - ma[c]) + wb * (db[k] - s[k] - mb[c]);
+      }
+    }
+  }
+  return target;
+};
@@ -0,0 +1,46 @@
+import { BlendMode } from '../types';
+
+// Separable blend of one channel, base and grain as 0-1 values (W3C compositing formulas)
+export type BlendFunction = (base: number, grain: number) => number;
+
+const softLightD = (b: number) => (b <= 0.25 ? ((16 * b - 12) * b + 4) * b : Math.sqrt(b));
+
+const BLEND_FUNCTIONS: Record<BlendMode, BlendFunction> = {
+  [BlendMode.NORMAL]: (_b, g) => g,
+  [BlendMode.MULTIPLY]: (b, g) => b * g,
+  [BlendMode.SCREEN]: (b, g) => 1 - (1 - b) * (1 - g),
+  [BlendMode.OVERLAY]: (b, g) => (b < 0.5 ? 2 * b * g : 1 - 2 * (1 - b) * (1 - g)),
+  [BlendMode.SOFT_LIGHT]: (b, g) => (g <= 0.5 ? b - (1 - 2 * g) * b * (1 - b) : b + (2 * g - 1) * (softLightD(b) - b)),
+  [BlendMode.LINEAR_LIGHT]: (b, g) => Math.min(1, Math.max(0, b + 2 * g - 1)),
+};
+
+export const getBlendFunction = (mode: BlendMode): BlendFunction => BLEND_FUNCTIONS[mode] || BLEND_FUNCTIONS[BlendMode.NORMAL];
+
+// Samples the response curve (points spread evenly over 0-1 luminance) with clamped Catmull-Rom
+export const evaluateCurve = (points: number[], x: number) => {
+  if (points.length === 0) return 1;
+  if (points.length === 1) return points[0];
+
+  const last = points.length - 1;
+  const f = Math.min(Math.max(x, 0), 1) * last;
+  const k = Math.min(Math.floor(f), last - 1);
+  const t = f - k;
+  const p0 = points[Math.max(k - 1, 0)];
+  const p1 = points[k];
+  const p2 = points[k + 1];
+  const p3 = points[Math.min(k + 2, last)];
+
+  const value =
+    0.5 * (2 * p1 + (-p0 + p2) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (-p0 + 3 * p1 - 3 * p2 + p3) * t * t * t);
+  return Math.min(1, Math.max(0, value));
+};
+
+// Grain strength multiplier for every 8-bit luminance value
+export const createResponseLookup = (points: number[]) => {
+  const lookup = new Float32Array(256);
+  for (let i = 0; i < 256; i++) lookup[i] = evaluateCurve(points, i / 255);
+  return lookup;
+};
+
+// Rec. 709 luma of an 8-bit RGB pixel, rounded to a lookup index
+export const luminance8 = (r: number, g: number, b: number) => Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
@@ -0,0 +1,78 @@
+export interface BlurOptions {
+  // Sample across the opposite edge instead of clamping (tileable output)
+  wrap?: boolean;
+  // Vertical edge handling when it differs from `wrap`, e.g. strips padded with rows of a wrapped image
+  wrapRows?: boolean;
+  // Values per pixel in `data`, defaults to RGBA
+  components?: number;
+  // Interleaved channels to blur, defaults to RGB
+  channels?: number[];
+  onProgress?: (progress: number) => void;
+}
+
+// Box sizes whose repeated application approximates a gaussian of the given sigma
+const boxesForGauss = (sigma: number, n: number) => {
+  const wIdeal = Math.sqrt((12 * sigma * sigma) / n + 1);
+  let wl = Math.floor(wIdeal);
+  if (wl % 2 === 0) wl--;
+  const wu = wl + 2;
+  const m = Math.round((12 * sigma * sigma - n * wl * wl - 4 * n * wl - 3 * n) / (-4 * wl - 4));
+  const sizes: number[] = [];
+  for (let i = 0; i < n; i++) sizes.push(i < m ? wl : wu);
+  return sizes;
+};
+
+const blurRadii = (sigma: number) => (sigma > 0 ? boxesForGauss(sigma, 3).map(size => (size - 1) / 2).filter(r => r > 0) : []);
+
+// How many pixels away a blurred value can pick up input from, i.e. the padding a strip needs
+export const getBlurReach = (sigma: number) => blurRadii(sigma).reduce((sum, r) => sum + r, 0);
+
+const boxBlurLine = (line: Float32Array, out: Float32Array, n: number, r: number, wrap: boolean) => {
+  const at = wrap
+    ? (i: number) => line[((i % n) + n) % n]
+    : (i: number) => line[i < 0 ? 0 : i >= n ? n - 1 : i];
+
+  let sum = 0;
+  for (let i = -r; i <= r; i++) sum += at(i);
+  const norm = 1 / (2 * r + 1);
+
+  for (let i = 0; i < n; i++) {
+    out[i] = sum * norm;
+    sum += at(i + r + 1) - at(i - r);
+  }
+};
+
+// Separable 3-pass box blur, equivalent to CSS `blur(${sigma}px)` within a few percent
+export const gaussianBlur = (
+  data: Uint8ClampedArray | Float32Array,
+  width: number,
+  height: number,
+  sigma: number,
+  options: BlurOptions = {}
+) => {
+  if (sigma <= 0) return;
+  const { wrap = false, wrapRows = wrap, components = 4, channels = components === 1 ? [0] : [0, 1, 2], onProgress } = options;
+  const radii = blurRadii(sigma);
+  if (radii.length === 0) return;
+
+  const pass = (count: number, length: number, start: (k: number) => number, stride: number, phase: number, wrap: boolean) => {
+    let a = new Float32Array(length);
+    let b = new Float32Array(length);
+    for (let k = 0; k < count; k++) {
+      if (onProgress && k % 64 === 0) onProgress((phase + k / count) / 2);
+      const base = start(k);
+      for (const c of channels) {
+        for (let i = 0; i < length; i++) a[i] = data[base + i * stride + c];
+        for (const r of radii) {
+          boxBlurLine(a, b, length, r, wrap);
+          const tmp = a; a = b; b = tmp;
+        }
+        for (let i = 0; i < length; i++) data[base + i * stride + c] = a[i];
+      }
+    }
+  };
+
+  // Horizontal, then vertical
+  pass(height, width, y => y * width * components, components, 0, wrap);
+  pass(width, height, x => x * components, width * components, 1, wrapRows);
+};
@@ -0,0 +1,8 @@
+export type RGB = [number, number, number];
+
+// Parses #RRGGBB, falling back to 0 per channel like the original canvas code did
+export const parseHexColor = (hex: string): RGB => [
+  parseInt(hex.slice(1, 3), 16) || 0,
+  parseInt(hex.slice(3, 5), 16) || 0,
+  parseInt(hex.slice(5, 7), 16) || 0,
+];
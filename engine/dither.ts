@@ -0,0 +1,134 @@
+import { OutputMode } from '../types';
+
+// Classic 8×8 ordered dither matrix
+const BAYER_8 = [
+  0, 32, 8, 40, 2, 34, 10, 42,
+  48, 16, 56, 24, 50, 18, 58, 26,
+  12, 44, 4, 36, 14, 46, 6, 38,
+  60, 28, 52, 20, 62, 30, 54, 22,
+  3, 35, 11, 43, 1, 33, 9, 41,
+  51, 19, 59, 27, 49, 17, 57, 25,
+  15, 47, 7, 39, 13, 45, 5, 37,
+  63, 31, 55, 23, 61, 29, 53, 21,
+];
+
+export interface HalftoneScreen {
+  lpi: number;
+  angle: number; // degrees
+  ppi: number;
+}
+
+// Size of one halftone cell in output pixels at the given print resolution
+export const getHalftoneCellSize = ({ lpi, ppi }: HalftoneScreen) => Math.max(2, ppi / Math.max(1, lpi));
+
+// Each dither writes `rows` rows of bits starting at image row `y0`, so a tall image can be
+// dithered strip by strip with the same result as in one go
+
+const orderedDither = (field: Float32Array, width: number, y0: number, rows: number, out: Uint8Array) => {
+  for (let y = 0; y < rows; y++) {
+    const row = ((y0 + y) & 7) * 8;
+    for (let x = 0, i = y * width; x < width; x++, i++) {
+      out[i] = field[i] > (BAYER_8[row + (x & 7)] + 0.5) / 64 ? 1 : 0;
+    }
+  }
+};
+
+// Error diffusion kernels as [dx, dy, weight] taps
+const FLOYD_STEINBERG: [number, number, number][] = [
+  [1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16],
+];
+// Atkinson only pushes 6/8 of the error forward, which keeps highlights and shadows clean
+const ATKINSON: [number, number, number][] = [
+  [1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8],
+];
+
+// The field passed in holds `lookahead` rows past the strip (fewer at the bottom of the image).
+// Those rows collect error from this strip and are handed over to replace the next strip's first rows.
+const createErrorDiffusion = (width: number, taps: [number, number, number][]) => {
+  let carry: Float32Array | null = null;
+  return (field: Float32Array, _y0: number, rows: number, out: Uint8Array) => {
+    const work = field.slice();
+    if (carry) work.set(carry.subarray(0, Math.min(carry.length, work.length)));
+    const available = work.length / width;
+
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0, i = y * width; x < width; x++, i++) {
+        const value = work[i];
+        const on = value >= 0.5 ? 1 : 0;
+        out[i] = on;
+        const error = value - on;
+        for (const [dx, dy, weight] of taps) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= available) continue;
+          work[ny * width + nx] += error * weight;
+        }
+      }
+    }
+    carry = work.slice(rows * width);
+  };
+};
+
+// AM screen: a rotated cosine spot function used as a threshold map, so dots
+// grow from the cell centres as coverage rises
+const createHalftone = (width: number, screen: HalftoneScreen) => {
+  const cell = getHalftoneCellSize(screen);
+  const theta = (screen.angle * Math.PI) / 180;
+  const cos = Math.cos(theta) / cell;
+  const sin = Math.sin(theta) / cell;
+  const tau = Math.PI * 2;
+
+  return (field: Float32Array, y0: number, rows: number, out: Uint8Array) => {
+    for (let y = 0; y < rows; y++) {
+      const py = y0 + y + 0.5;
+      for (let x = 0, i = y * width; x < width; x++, i++) {
+        const u = (x + 0.5) * cos + py * sin;
+        const v = py * cos - (x + 0.5) * sin;
+        const threshold = 0.5 - 0.25 * (Math.cos(tau * u) + Math.cos(tau * v));
+        out[i] = field[i] > threshold ? 1 : 0;
+      }
+    }
+  };
+};
+
+export interface Ditherer {
+  // Rows past the strip the field must include for error diffusion
+  lookahead: number;
+  // Turns `rows` rows of a 0-1 coverage field, starting at image row `y0`, into bits (1 = ink).
+  // Strips must be passed top to bottom.
+  dither: (field: Float32Array, y0: number, rows: number) => Uint8Array;
+}
+
+export const createDitherer = (width: number, mode: OutputMode, screen: HalftoneScreen): Ditherer => {
+  let lookahead = 0;
+  let run: (field: Float32Array, y0: number, rows: number, out: Uint8Array) => void;
+  switch (mode) {
+    case OutputMode.BAYER:
+      run = (field, y0, rows, out) => orderedDither(field, width, y0, rows, out);
+      break;
+    case OutputMode.FLOYD_STEINBERG:
+      run = createErrorDiffusion(width, FLOYD_STEINBERG);
+      lookahead = 1;
+      break;
+    case OutputMode.ATKINSON:
+      run = createErrorDiffusion(width, ATKINSON);
+      lookahead = 2;
+      break;
+    case OutputMode.HALFTONE:
+      run = createHalftone(width, screen);
+      break;
+    default:
+      run = (field, _y0, rows, out) => {
+        for (let i = 0; i < rows * width; i++) out[i] = field[i] >= 0.5 ? 1 : 0;
+      };
+      break;
+  }
+  return {
+    lookahead,
+    dither: (field, y0, rows) => {
+      const out = new Uint8Array(width * rows);
+      run(field, y0, rows, out);
+      return out;
+    },
+  };
+};
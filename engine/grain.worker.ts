@@ -0,0 +1,50 @@
+import { GrainSettings } from '../types';
+import { GrainBuffer, RenderOptions, renderGrain } from './grainEngine';
+import { StreamedEncoding, encodeStrips } from './stripEncoder';
+
+export interface RenderRequest {
+  id: number;
+  settings: GrainSettings;
+  // Base image identified by key; pixels are only sent when this worker hasn't seen the key yet
+  base?: { key: number; buffer?: GrainBuffer } | null;
+  transparent?: boolean;
+  downscale?: number;
+  encode?: StreamedEncoding;
+}
+
+export type RenderResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'done'; id: number; width: number; height: number; data: Uint8ClampedArray }
+  | { type: 'file'; id: number; blob: Blob }
+  | { type: 'error'; id: number; message: string };
+
+let cachedBase: { key: number; buffer: GrainBuffer } | null = null;
+
+const post = (message: RenderResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = async (e: MessageEvent<RenderRequest>) => {
+  const { id, settings, base, transparent, downscale, encode } = e.data;
+  if (base?.buffer) cachedBase = { key: base.key, buffer: base.buffer };
+
+  const options: RenderOptions = {
+    base: base && cachedBase?.key === base.key ? cachedBase.buffer : null,
+    transparent,
+    downscale,
+    onProgress: progress => post({ type: 'progress', id, progress }),
+  };
+  // Failures inside an async handler never reach the worker's error event, so they're posted back
+  try {
+    if (encode) {
+      const parts = await encodeStrips(settings, options, encode);
+      post({ type: 'file', id, blob: new Blob(parts, { type: encode.format === 'TIFF' ? 'image/tiff' : 'image/png' }) });
+      return;
+    }
+
+    const buffer = renderGrain(settings, options);
+    post({ type: 'done', id, ...buffer }, [buffer.data.buffer]);
+  } catch (err) {
+    post({ type: 'error', id, message: err instanceof Error ? err.message : 'Grain render failed' });
+  }
+};
@@ -0,0 +1,294 @@
+import { GrainSettings, GrainTexture, OutputMode, BlendMode, ColorMode, APP_LIMITS, DEFAULT_SETTINGS } from '../types';
+import { GrainBuffer, renderGrain } from './grainEngine';
+import { gaussianBlur } from './blur';
+
+export interface GrainAnalysis {
+  settings: Partial<GrainSettings>;
+  // 0 (poor) to 1 (statistically indistinguishable): how well the best candidate matched the scan
+  confidence: number;
+}
+
+// Summary statistics of the fine grain once large-scale tone has been removed
+interface GrainStats {
+  // Normalized autocorrelation along each of DIRECTIONS at lags 1..MAX_LAG, one after another
+  curve: Float32Array;
+  // Mean of the field before the high-pass, std after
+  mean: number;
+  std: number;
+  skew: number;
+  kurtosis: number;
+}
+
+// Horizontal, vertical and both diagonals, so fiber direction shows up in the curves
+const DIRECTIONS = [[1, 0], [0, 1], [1, 1], [1, -1]];
+const MAX_LAG = 16;
+// Tone variations wider than this (vignetting, clumps, scan content) are not grain
+const HIGH_PASS_SIGMA = 12;
+// Side of the candidate patches rendered while fitting
+const FIT_SIZE = 160;
+// Reference pixels sampled per autocorrelation lag
+const SAMPLE_PIXELS = 250000;
+
+const FIBER_ANGLES = [0, 45, 90, 135];
+const RANDOMNESS_STEPS = [0, 0.2, 0.4, 0.6, 0.8, 1];
+// Coarse grid used to pick the texture, then a finer one around the winner
+const COARSE_SCALE_FACTORS = [0.6, 1];
+const COARSE_ROUGHNESS = [0, 0.3];
+// Speckle density follows intensity, so its shape can only be compared at a matching strength
+const SPECKLE_INTENSITIES = [0.15, 0.3, 0.6, 1];
+const SCALE_FACTORS = [0.35, 0.5, 0.7, 0.85, 1, 1.2, 1.4];
+const ROUGHNESS_STEPS = [0, 0.05, 0.1, 0.2, 0.3, 0.45, 0.65, 0.9];
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+  (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+// Reads the scan as "paper tone" g (luminance on light scans, its inverse on dark ones), so
+// grain always lowers g. In the engine's model g = paper × (1 - coverage), which lets the
+// paper tone and the grain strength be solved for once the texture is known.
+const toPaperField = ({ width, height, data }: GrainBuffer) => {
+  const count = width * height;
+  const field = new Float32Array(count);
+  const rgb = [0, 0, 0];
+  let sum = 0;
+  for (let p = 0; p < count; p++) {
+    field[p] = luminance(data, p * 4);
+    sum += field[p];
+    for (let c = 0; c < 3; c++) rgb[c] += data[p * 4 + c];
+  }
+  const light = sum / count >= 0.5;
+  if (!light) for (let p = 0; p < count; p++) field[p] = 1 - field[p];
+  return { field, light, meanRGB: rgb.map(v => v / count) };
+};
+
+// Paper field of a rendered candidate: black grain on white, so paper = 1 and g is the luminance
+const renderedField = (settings: GrainSettings) => {
+  const buffer = renderGrain(settings);
+  const field = new Float32Array(buffer.width * buffer.height);
+  for (let p = 0; p < field.length; p++) field[p] = luminance(buffer.data, p * 4);
+  return field;
+};
+
+const highPass = (field: Float32Array, width: number, height: number) => {
+  const low = Float32Array.from(field);
+  gaussianBlur(low, width, height, HIGH_PASS_SIGMA, { components: 1 });
+  const high = new Float32Array(field.length);
+  for (let p = 0; p < field.length; p++) high[p] = field[p] - low[p];
+  return high;
+};
+
+// High-pass divided by its local RMS, so clumping (which scales the grain up and down)
+// leaves the shape statistics alone; the overall std is kept
+const whiten = (high: Float32Array, width: number, height: number) => {
+  const power = high.map(v => v * v);
+  gaussianBlur(power, width, height, HIGH_PASS_SIGMA, { components: 1 });
+  let total = 0;
+  for (let p = 0; p < power.length; p++) total += power[p];
+  const rms = Math.sqrt(total / power.length);
+  return high.map((v, p) => (v * rms) / Math.sqrt(Math.max(power[p], 1e-12)));
+};
+
+const measure = (field: Float32Array, width: number, height: number): GrainStats => {
+  const high = whiten(highPass(field, width, height), width, height);
+  // Ignore the border, where the high-pass clamps
+  const margin = Math.min(HIGH_PASS_SIGMA * 2, Math.floor(Math.min(width, height) / 4));
+  const x0 = margin, x1 = width - margin, y0 = margin, y1 = height - margin;
+  const rowStep = Math.max(1, Math.floor(((x1 - x0) * (y1 - y0)) / SAMPLE_PIXELS));
+
+  let n = 0, total = 0, m2 = 0, m3 = 0, m4 = 0;
+  for (let y = y0; y < y1; y += rowStep) {
+    for (let x = x0; x < x1; x++) {
+      total += field[y * width + x];
+      const v = high[y * width + x];
+      const v2 = v * v;
+      m2 += v2;
+      m3 += v2 * v;
+      m4 += v2 * v2;
+      n++;
+    }
+  }
+  m2 /= n;
+  m3 /= n;
+  m4 /= n;
+  const variance = Math.max(m2, 1e-12);
+
+  const curve = new Float32Array(DIRECTIONS.length * MAX_LAG);
+  DIRECTIONS.forEach(([dx, dy], d) => {
+    for (let lag = 1; lag <= MAX_LAG; lag++) {
+      const ox = dx * lag, oy = dy * lag;
+      let sum = 0, count = 0;
+      for (let y = Math.max(y0, y0 - oy); y < Math.min(y1, y1 - oy); y += rowStep) {
+        for (let x = Math.max(x0, x0 - ox); x < Math.min(x1, x1 - ox); x++) {
+          sum += high[y * width + x] * high[(y + oy) * width + x + ox];
+          count++;
+        }
+      }
+      curve[d * MAX_LAG + lag - 1] = count ? sum / count / variance : 0;
+    }
+  });
+
+  return { curve, mean: total / n, std: Math.sqrt(m2), skew: m3 / variance ** 1.5, kurtosis: m4 / variance ** 2 - 3 };
+};
+
+// Compresses kurtosis so sparse speckle (kurtosis in the tens) doesn't swamp everything else
+const shape = (k: number) => Math.sign(k) * Math.log1p(Math.abs(k));
+
+const distance = (a: GrainStats, b: GrainStats, withHistogram: boolean) => {
+  let sum = 0;
+  for (let i = 0; i < a.curve.length; i++) sum += (a.curve[i] - b.curve[i]) ** 2;
+  sum /= a.curve.length;
+  if (withHistogram) sum += 0.1 * ((a.skew - b.skew) ** 2 + (shape(a.kurtosis) - shape(b.kurtosis)) ** 2);
+  return sum;
+};
+
+// Lag where the horizontal / vertical correlation drops to one half; about half the grain size
+const halfWidth = ({ curve }: GrainStats) => {
+  const at = (lag: number) => (curve[lag - 1] + curve[MAX_LAG + lag - 1]) / 2;
+  let previous = 1;
+  for (let lag = 1; lag <= MAX_LAG; lag++) {
+    const r = at(lag);
+    if (r < 0.5) return lag - 1 + (previous - 0.5) / Math.max(previous - r, 1e-6);
+    previous = r;
+  }
+  return MAX_LAG;
+};
+
+// Relative spread of the grain amplitude between blocks: clumping multiplies the grain,
+// so it shows up as some blocks being much busier than others
+const clumpiness = (field: Float32Array, width: number, height: number, block: number) => {
+  const high = highPass(field, width, height);
+  const amplitudes: number[] = [];
+  for (let by = 0; by + block <= height; by += block) {
+    for (let bx = 0; bx + block <= width; bx += block) {
+      let sum = 0;
+      for (let y = by; y < by + block; y++) for (let x = bx; x < bx + block; x++) sum += high[y * width + x] ** 2;
+      amplitudes.push(Math.sqrt(sum / (block * block)));
+    }
+  }
+  const mean = amplitudes.reduce((a, b) => a + b, 0) / Math.max(1, amplitudes.length);
+  const variance = amplitudes.reduce((a, b) => a + (b - mean) ** 2, 0) / Math.max(1, amplitudes.length);
+  return mean > 1e-9 ? Math.sqrt(variance) / mean : 0;
+};
+
+const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+// Estimates the settings that reproduce the grain in a scan, by rendering candidates with
+// the engine itself and keeping the one whose statistics match best:
+// - texture (and fiber direction) from the histogram shape and the directional correlation
+// - scale and roughness from how quickly neighbouring pixels stop correlating
+// - randomness from the low-frequency variation of the grain
+// - intensity and paper tone from the scan's mean and variance against the candidate's
+// The scan is assumed to be at output resolution, so `scale` is in its pixels.
+export const analyzeGrain = (scan: GrainBuffer, onProgress?: (progress: number) => void): GrainAnalysis => {
+  const { width, height } = scan;
+  if (width < FIT_SIZE || height < FIT_SIZE) {
+    throw new Error(`The scan needs to be at least ${FIT_SIZE} × ${FIT_SIZE} px to analyze.`);
+  }
+  const { field, light, meanRGB } = toPaperField(scan);
+  const target = measure(field, width, height);
+  if (target.std < 1e-3) throw new Error('No measurable grain in this image.');
+
+  const baseSettings: GrainSettings = {
+    ...DEFAULT_SETTINGS,
+    width: FIT_SIZE,
+    height: FIT_SIZE,
+    intensity: 1,
+    opacity: 1,
+    randomness: 0,
+    roughness: 0,
+    bgColor: '#FFFFFF',
+    grainColor: '#000000',
+    colorMode: ColorMode.MONO,
+    tileable: false,
+    outputMode: OutputMode.CONTINUOUS,
+    blendMode: BlendMode.NORMAL,
+    responseCurve: [1, 1],
+  };
+  const evaluate = (changes: Partial<GrainSettings>) => {
+    const settings = { ...baseSettings, ...changes };
+    const stats = measure(renderedField(settings), settings.width, settings.height);
+    return { settings, stats, error: distance(target, stats, true) };
+  };
+  const best = <T extends { error: number }>(items: T[]) => items.reduce((a, b) => (b.error < a.error ? b : a));
+  const clampScale = (scale: number) => Math.min(APP_LIMITS.MAX_SCALE, Math.max(1, round(scale, 1)));
+
+  // --- 1. Texture, on a coarse grid around a first guess of the grain size ---
+  const guessScale = clampScale(halfWidth(target) * 2);
+  const textureCandidates: Partial<GrainSettings>[] = Object.values(GrainTexture).flatMap((texture): Partial<GrainSettings>[] => {
+    if (texture === GrainTexture.PAPER_FIBER) return FIBER_ANGLES.map(fiberAngle => ({ texture, fiberAngle }));
+    if (texture === GrainTexture.SPECKLE) return SPECKLE_INTENSITIES.map(intensity => ({ texture, intensity }));
+    return [{ texture }];
+  });
+  const stage1 = textureCandidates.map((candidate, i) => {
+    const results = COARSE_SCALE_FACTORS.flatMap(factor =>
+      COARSE_ROUGHNESS.map(roughness => evaluate({ ...candidate, scale: clampScale(guessScale * factor), roughness }))
+    );
+    onProgress?.((0.5 * (i + 1)) / textureCandidates.length);
+    return best(results);
+  });
+  const { texture, fiberAngle, intensity: fitIntensity } = best(stage1).settings;
+
+  // --- 2. Scale and roughness for that texture ---
+  const stage2: ReturnType<typeof evaluate>[] = [];
+  SCALE_FACTORS.forEach((factor, i) => {
+    const scale = clampScale(guessScale * factor);
+    for (const roughness of ROUGHNESS_STEPS) stage2.push(evaluate({ texture, fiberAngle, intensity: fitIntensity, scale, roughness }));
+    onProgress?.(0.5 + (0.3 * (i + 1)) / SCALE_FACTORS.length);
+  });
+  const fit = best(stage2);
+
+  // --- 3. Randomness from clumping, compared on a patch as large as the scan ---
+  const size = { width: Math.min(width, 512), height: Math.min(height, 512) };
+  const block = Math.max(8, Math.round(fit.settings.scale * 4));
+  const targetClumps = clumpiness(field, width, height, block);
+  const stage3 = RANDOMNESS_STEPS.map((randomness, i) => {
+    const candidate = renderedField({ ...fit.settings, ...size, randomness });
+    onProgress?.(0.8 + (0.2 * (i + 1)) / RANDOMNESS_STEPS.length);
+    return {
+      randomness,
+      stats: measure(candidate, size.width, size.height),
+      error: Math.abs(clumpiness(candidate, size.width, size.height, block) - targetClumps),
+    };
+  });
+  const clumps = best(stage3);
+
+  // --- 4. Intensity and paper tone: scan mean = paper × (1 - k × m), scan std = paper × k × s,
+  // where m and s are the candidate's coverage mean and std, and k scales its intensity ---
+  const m = 1 - clumps.stats.mean;
+  const s = Math.max(clumps.stats.std, 1e-6);
+  const q = target.std / Math.max(target.mean, 1e-6);
+  let k = q / (s + q * m);
+  let paper = target.mean / Math.max(1 - k * m, 1e-6);
+  if (paper > 1) {
+    // Brighter than white isn't possible: keep white paper and take the strength from the variance alone
+    paper = 1;
+    k = target.std / s;
+  }
+  const intensity = Math.min(1, k * fit.settings.intensity);
+
+  // Keep the scan's tint on the paper color
+  const meanL = Math.max(target.mean, 1e-6);
+  const paperRGB = light
+    ? meanRGB.map(v => Math.min(255, (v * paper) / meanL))
+    : meanRGB.map(v => Math.max(0, 255 - ((255 - v) * paper) / meanL));
+
+  return {
+    settings: {
+      texture,
+      ...(texture === GrainTexture.PAPER_FIBER ? { fiberAngle } : {}),
+      scale: fit.settings.scale,
+      roughness: fit.settings.roughness,
+      randomness: clumps.randomness,
+      intensity: round(intensity, 2),
+      opacity: 1,
+      bgColor: toHex(paperRGB[0], paperRGB[1], paperRGB[2]),
+      grainColor: light ? '#000000' : '#FFFFFF',
+      colorMode: ColorMode.MONO,
+      blendMode: BlendMode.NORMAL,
+      outputMode: OutputMode.CONTINUOUS,
+    },
+    confidence: round(Math.max(0, 1 - Math.sqrt(fit.error) * 2), 2),
+  };
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, GrainSettings, GrainTexture, OutputMode, ColorMode } from '../types';
+import { renderGrain, renderStrips } from './grainEngine';
+import { createRandom, createRowRandom, hashCoords } from './random';
+import { getBaseStyle } from './layers';
+
+const small = (patch: Partial<GrainSettings> = {}): GrainSettings => ({ ...DEFAULT_SETTINGS, width: 96, height: 64, ...patch });
+
+const rows = (data: Uint8ClampedArray, width: number, from: number, to: number) => data.subarray(from * width * 4, to * width * 4);
+
+describe('random', () => {
+  it('repeats a stream for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const first = Array.from({ length: 8 }, a);
+    expect(Array.from({ length: 8 }, b)).toEqual(first);
+    expect(first.every(v => v >= 0 && v < 1)).toBe(true);
+  });
+
+  it('gives every row its own stream', () => {
+    expect(createRowRandom(7, 0)()).not.toBe(createRowRandom(7, 1)());
+    expect(createRowRandom(7, 3)()).toBe(createRowRandom(7, 3)());
+  });
+
+  it('hashes lattice points independently of visiting order', () => {
+    const forward = [0, 1, 2].map(x => hashCoords(9, x, 5));
+    const backward = [2, 1, 0].map(x => hashCoords(9, x, 5)).reverse();
+    expect(backward).toEqual(forward);
+  });
+});
+
+describe('renderGrain', () => {
+  it('renders the same pixels for the same settings', () => {
+    const settings = small({ texture: GrainTexture.PERLIN, randomness: 0.5 });
+    expect(renderGrain(settings).data).toEqual(renderGrain(settings).data);
+  });
+
+  it('changes with the seed', () => {
+    expect(renderGrain(small({ seed: 1 })).data).not.toEqual(renderGrain(small({ seed: 2 })).data);
+  });
+
+  it('leaves the background alone at zero intensity', () => {
+    const { data } = renderGrain(small({ intensity: 0, bgColor: '#336699' }));
+    for (let i = 0; i < data.length; i += 4) {
+      expect([data[i], data[i + 1], data[i + 2], data[i + 3]]).toEqual([0x33, 0x66, 0x99, 255]);
+    }
+  });
+
+  it('draws rows from seeded per-row streams, so a taller canvas starts with the same rows', () => {
+    // No blur or clumps, which look at the whole canvas
+    const settings = small({ roughness: 0, randomness: 0 });
+    const short = renderGrain(settings);
+    const tall = renderGrain({ ...settings, height: 96 });
+    expect(rows(tall.data, 96, 0, 64)).toEqual(short.data);
+  });
+
+  it('outputs only black and white in 1-bit modes', () => {
+    const { data } = renderGrain(small({ outputMode: OutputMode.FLOYD_STEINBERG }));
+    for (let i = 0; i < data.length; i += 4) expect([0, 255]).toContain(data[i]);
+  });
+
+  it('keeps COLOR with no chroma noise identical to MONO', () => {
+    const mono = renderGrain(small({ colorMode: ColorMode.MONO }));
+    const color = renderGrain(small({ colorMode: ColorMode.COLOR, chromaNoise: 0, lumaNoise: 1 }));
+    expect(color.data).toEqual(mono.data);
+  });
+
+  it('renders transparent output as grain over nothing', () => {
+    const { data } = renderGrain(small({ intensity: 0 }), { transparent: true });
+    expect(data.every(v => v === 0)).toBe(true);
+  });
+});
+
+describe('clumping', () => {
+  // Transparent output keeps each particle's color and coverage apart; no blur mixes neighbours
+  const particles = (patch: Partial<GrainSettings>) =>
+    renderGrain(
+      small({
+        roughness: 0,
+        intensity: 1,
+        colorMode: ColorMode.PALETTE,
+        palette: [{ color: '#FF0000', weight: 1 }, { color: '#0000FF', weight: 1 }, { color: '#00FF00', weight: 1 }],
+        ...patch,
+      }),
+      { transparent: true }
+    ).data;
+
+  const plain = particles({ randomness: 0 });
+  const variants: [string, Partial<GrainSettings>][] = [
+    ['randomness', { randomness: 0.8 }],
+    ['clump size and detail', { randomness: 0.6, clumpSize: 3, clumpOctaves: 4 }],
+    ['streaks', { randomness: 0.6, clumpAngle: 60, clumpStretch: 4, clumpContrast: 1 }],
+  ];
+
+  it.each(variants)('leaves particle colors alone when changing %s', (_, patch) => {
+    const clumped = particles(patch);
+    let compared = 0;
+    for (let i = 0; i < plain.length; i += 4) {
+      if (plain[i + 3] < 32) continue;
+      expect([clumped[i], clumped[i + 1], clumped[i + 2]]).toEqual([plain[i], plain[i + 1], plain[i + 2]]);
+      compared++;
+    }
+    expect(compared).toBeGreaterThan(plain.length / 16);
+  });
+
+  it.each(variants)('only thins out the same base noise when changing %s', (_, patch) => {
+    const clumped = particles(patch);
+    let thinned = 0;
+    for (let i = 3; i < plain.length; i += 4) {
+      // Clumps scale each particle's coverage by 0.2 to 1 and draw nothing of their own
+      expect(clumped[i]).toBeLessThanOrEqual(plain[i] + 1);
+      expect(clumped[i]).toBeGreaterThanOrEqual(plain[i] * 0.2 - 1);
+      if (clumped[i] < plain[i] - 1) thinned++;
+    }
+    expect(thinned).toBeGreaterThan(0);
+  });
+});
+
+describe('renderStrips', () => {
+  // Blur, clumps and tileable wrapping all read rows beyond a strip's own
+  const cases: [string, Partial<GrainSettings>][] = [
+    ['plain', { roughness: 0, randomness: 0 }],
+    ['blurred', { roughness: 0.8 }],
+    ['clumped', { randomness: 0.8, clumpSize: 6, clumpStretch: 3, clumpAngle: 30 }],
+    ['perlin', { texture: GrainTexture.PERLIN, scale: 4, roughness: 0.4 }],
+    ['tileable', { tileable: true, roughness: 0.6, randomness: 0.6, texture: GrainTexture.BLUE_NOISE }],
+    ['tileable color', { tileable: true, colorMode: ColorMode.COLOR, chromaNoise: 0.6, roughness: 0.5, scale: 2 }],
+  ];
+
+  it.each(cases)('joins %s strips without seams, byte for byte', (_, patch) => {
+    const settings = small({ height: 80, ...patch });
+    const whole = renderGrain(settings, { stripRows: 80 });
+    for (const stripRows of [17, 32]) {
+      let next = 0;
+      for (const strip of renderStrips(settings, { stripRows })) {
+        expect(strip.y).toBe(next);
+        expect(strip.buffer.data).toEqual(rows(whole.data, whole.width, strip.y, strip.y + strip.buffer.height));
+        next += strip.buffer.height;
+      }
+      expect(next).toBe(80);
+    }
+  });
+
+  it('joins the strips of stacked layers', () => {
+    const settings = small({ height: 80, roughness: 0.5 });
+    const stacked = { ...settings, layers: [{ name: 'Dust', visible: true, settings: { ...getBaseStyle(settings), seed: 9, randomness: 0.7, roughness: 1 } }] };
+    expect(renderGrain(stacked, { stripRows: 20 }).data).toEqual(renderGrain(stacked, { stripRows: 80 }).data);
+  });
+
+  it('reports progress up to 1', () => {
+    const progress: number[] = [];
+    renderGrain(small(), { stripRows: 16, onProgress: p => progress.push(p) });
+    expect(progress.at(-1)).toBe(1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+  });
+});
@@ -0,0 +1,631 @@
+import { GrainSettings, GrainTexture, OutputMode, BlendMode, ColorMode, APP_LIMITS } from '../types';
+import { createRowRandom, hashCoords, hashInt } from './random';
+import { parseHexColor } from './color';
+import { gaussianBlur, getBlurReach } from './blur';
+import { createTextureSampler } from './noiseModels';
+import { createDitherer, getHalftoneCellSize } from './dither';
+import { resampleRows } from './resample';
+import { getBlendFunction, createResponseLookup, luminance8 } from './blend';
+import { getVisibleLayers } from './layers';
+import { createMaskRows } from './mask';
+
+// ImageData-compatible pixel buffer so results can go straight into putImageData
+// in the browser, or into an encoder in a Worker / Node without a DOM.
+export interface GrainBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface RenderOptions {
+  // Called with the completed fraction (0 to 1) as the render advances
+  onProgress?: (progress: number) => void;
+  // Image drawn instead of the flat bgColor, stretched to the output size
+  base?: GrainBuffer | null;
+  // Grain particles only on a transparent background (straight alpha), for overlay layers
+  transparent?: boolean;
+  // Renders a stand-in 1/downscale the size of the output: the settings carry the smaller
+  // canvas, and grain cells plus everything sized in cells shrink with it
+  downscale?: number;
+  // Rows per strip instead of the default of about STRIP_PIXELS each
+  stripRows?: number;
+}
+
+// A horizontal band of the output, `y` being its first row
+export interface GrainStrip {
+  y: number;
+  buffer: GrainBuffer;
+}
+
+// Bump whenever the same settings would render different pixels, so saved recipes can tell
+export const ENGINE_VERSION = 5;
+
+// Pixels per strip; keeps the working buffers of one strip around 16 MB
+const STRIP_PIXELS = 1 << 22;
+
+// Throttles progress callbacks to whole percent steps
+const createProgressReporter = (onProgress?: (progress: number) => void) => {
+  let last = -1;
+  return (progress: number) => {
+    if (!onProgress) return;
+    const pct = Math.floor(progress * 100);
+    if (pct === last) return;
+    last = pct;
+    onProgress(pct / 100);
+  };
+};
+
+export const getOutputSize = (settings: GrainSettings) => ({
+  width: Math.min(settings.width, APP_LIMITS.MAX_TILED_DIMENSION),
+  height: Math.min(settings.height, APP_LIMITS.MAX_TILED_DIMENSION),
+});
+
+// Salt for the clump field's seed, so clumps are independent of the particles they thin out
+const CLUMP_SEED_SALT = 0x636c756d;
+
+// Clump density (0 to 1) on the noise grid: value noise on a lattice `clumpSize` grain cells across,
+// with each further octave half the size and half the weight, optionally stretched along
+// `clumpAngle` into streaks. Hashed from its own derived seed, so tuning the clumps never moves
+// a particle. When tileable the lattice is periodic, and streaks snap to the nearest axis so
+// the map still wraps at the edges.
+const createClumpSampler = (settings: GrainSettings, noiseW: number, noiseH: number, cellScale: number) => {
+  const { seed, clumpSize, clumpOctaves, clumpContrast, clumpAngle, clumpStretch, tileable } = settings;
+  const clumpSeed = hashInt(seed ^ CLUMP_SEED_SALT);
+  const radians = (clumpAngle * Math.PI) / 180;
+  const angle = tileable ? (Math.abs(Math.cos(radians)) >= Math.SQRT1_2 ? 0 : Math.PI / 2) : radians;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  // 0.5 keeps the noise as it is; lower flattens the clumps, higher sharpens them
+  const gain = Math.pow(2, (clumpContrast - 0.5) * 4);
+
+  const octaves = Array.from({ length: Math.max(1, Math.round(clumpOctaves)) }, (_, o) => {
+    const across = Math.max(1, (clumpSize * cellScale) / 2 ** o);
+    const along = across * Math.max(1, clumpStretch);
+    const octaveSeed = hashInt(clumpSeed + o);
+
+    if (tileable) {
+      // Whole lattice periods across the grid
+      const horizontal = angle === 0;
+      const cW = Math.max(1, Math.round(noiseW / (horizontal ? along : across)));
+      const cH = Math.max(1, Math.round(noiseH / (horizontal ? across : along)));
+      const cells = Float32Array.from({ length: cW * cH }, (_, i) => hashCoords(octaveSeed, i % cW, Math.floor(i / cW)));
+      return {
+        weight: 0.5 ** o,
+        sample: (x: number, y: number) => {
+          const u = (x * cW) / noiseW;
+          const v = (y * cH) / noiseH;
+          const i0 = Math.floor(u);
+          const j0 = Math.floor(v);
+          const tx = u - i0;
+          const ty = v - j0;
+          const a = i0 % cW;
+          const b = (i0 + 1) % cW;
+          const c = (j0 % cH) * cW;
+          const d = ((j0 + 1) % cH) * cW;
+          const top = cells[c + a] * (1 - tx) + cells[c + b] * tx;
+          const bottom = cells[d + a] * (1 - tx) + cells[d + b] * tx;
+          return top * (1 - ty) + bottom * ty;
+        },
+      };
+    }
+
+    // Rotated lattice coordinates of a grid cell: u runs along the streaks, v across them
+    const toLattice = (x: number, y: number) => {
+      const dx = x + 0.5 - noiseW / 2;
+      const dy = y + 0.5 - noiseH / 2;
+      return { u: (dx * cos + dy * sin) / along, v: (dy * cos - dx * sin) / across };
+    };
+    // Lattice points covering the rotated grid, so each one is hashed only once
+    const corners = [toLattice(0, 0), toLattice(noiseW, 0), toLattice(0, noiseH), toLattice(noiseW, noiseH)];
+    const uMin = Math.floor(Math.min(...corners.map(c => c.u))) - 1;
+    const vMin = Math.floor(Math.min(...corners.map(c => c.v))) - 1;
+    const cW = Math.ceil(Math.max(...corners.map(c => c.u))) - uMin + 2;
+    const cH = Math.ceil(Math.max(...corners.map(c => c.v))) - vMin + 2;
+    const cells = Float32Array.from({ length: cW * cH }, (_, i) => hashCoords(octaveSeed, uMin + (i % cW), vMin + Math.floor(i / cW)));
+    return {
+      weight: 0.5 ** o,
+      sample: (x: number, y: number) => {
+        const { u, v } = toLattice(x, y);
+        const i0 = Math.floor(u) - uMin;
+        const j0 = Math.floor(v) - vMin;
+        const tx = u - Math.floor(u);
+        const ty = v - Math.floor(v);
+        const c = j0 * cW + i0;
+        const top = cells[c] * (1 - tx) + cells[c + 1] * tx;
+        const bottom = cells[c + cW] * (1 - tx) + cells[c + cW + 1] * tx;
+        return top * (1 - ty) + bottom * ty;
+      },
+    };
+  });
+  const totalWeight = octaves.reduce((sum, octave) => sum + octave.weight, 0);
+
+  return (y: number, out: Float32Array) => {
+    for (let x = 0; x < noiseW; x++) {
+      let value = 0;
+      for (const octave of octaves) value += octave.sample(x, y) * octave.weight;
+      const contrasted = 0.5 + (value / totalWeight - 0.5) * gain;
+      out[x] = contrasted < 0 ? 0 : contrasted > 1 ? 1 : contrasted;
+    }
+  };
+};
+
+// Raw texture value (0 to 1) of one grain cell; `rng` is the row's seeded stream
+const createNoiseSampler = (settings: GrainSettings, noiseW: number, noiseH: number, cellScale: number) => {
+  const { intensity, texture } = settings;
+  const sampler = createTextureSampler(settings, noiseW, noiseH, cellScale);
+
+  return (rng: () => number, x: number, y: number) => {
+    switch (texture) {
+      case GrainTexture.BLUE_NOISE:
+      case GrainTexture.PERLIN:
+      case GrainTexture.PAPER_FIBER:
+        return sampler ? sampler(x, y) : rng();
+      case GrainTexture.GAUSSIAN: {
+        const u = 1 - rng();
+        const v = 1 - rng();
+        const noise = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+        return (noise + 3) / 6;
+      }
+      case GrainTexture.SPECKLE:
+        return rng() > (1 - intensity * 0.8) ? rng() : 0.5;
+      case GrainTexture.FILM:
+        return (rng() + rng() + rng()) / 3;
+      case GrainTexture.UNIFORM:
+      default:
+        return rng();
+    }
+  };
+};
+
+// Particle color per cell: grainColor, or a weighted draw from the palette
+const createParticleColors = (settings: GrainSettings) => {
+  const { colorMode, grainColor, palette } = settings;
+  const entries = colorMode === ColorMode.PALETTE ? palette.filter(p => p.weight > 0) : [];
+  if (entries.length === 0) {
+    const color = parseHexColor(grainColor);
+    return (_rng: () => number) => color;
+  }
+  const colors = entries.map(p => parseHexColor(p.color));
+  const total = entries.reduce((sum, p) => sum + p.weight, 0);
+  let running = 0;
+  const thresholds = entries.map(p => (running += p.weight / total));
+  return (rng: () => number) => {
+    const r = rng();
+    const k = thresholds.findIndex(t => r < t);
+    return colors[k < 0 ? colors.length - 1 : k];
+  };
+};
+
+// Builds RGBA rows of the (scaled down) grain grid on demand. Each row draws from its own
+// seeded stream, so a strip only generates the rows it covers and gets the same values
+// as a full-frame render.
+const createNoiseRows = (settings: GrainSettings, noiseW: number, noiseH: number, cellScale: number) => {
+  const { intensity, randomness, colorMode, lumaNoise, seed } = settings;
+  const sample = createNoiseSampler(settings, noiseW, noiseH, cellScale);
+  const particleColor = createParticleColors(settings);
+  const clumps = randomness > 0.05 ? createClumpSampler(settings, noiseW, noiseH, cellScale) : null;
+  const clumpRow = new Float32Array(noiseW);
+  // COLOR mode scales the brightness variation around its midpoint; 1 matches MONO
+  const luma = colorMode === ColorMode.COLOR ? lumaNoise : 1;
+
+  return (y: number) => {
+    const rng = createRowRandom(seed, y);
+    const row = new Uint8ClampedArray(noiseW * 4);
+    clumps?.(y, clumpRow);
+
+    for (let x = 0, i = 0; x < noiseW; x++, i += 4) {
+      const noise = sample(rng, x, y);
+      let effect = (0.5 + (noise - 0.5) * luma) * intensity;
+
+      // Apply Clumping / Randomness
+      if (clumps) {
+        const mapVal = clumpRow[x];
+
+        // Contrast curve based on randomness: where mapVal < threshold the grain is
+        // suppressed. Max threshold 0.8 to always leave some spots.
+        const threshold = randomness * 0.8;
+
+        // Soft threshold
+        let mask = (mapVal - threshold) / (1 - threshold);
+        if (mask < 0) mask = 0;
+        if (mask > 1) mask = 1;
+
+        effect *= (mask * 0.8 + 0.2); // Never fully remove grain, just suppress
+      }
+
+      const [r, g, b] = particleColor(rng);
+      row[i] = r;
+      row[i + 1] = g;
+      row[i + 2] = b;
+      row[i + 3] = effect * 255;
+    }
+    return row;
+  };
+};
+
+// COLOR mode: like the dye layers of colour film, each channel gets its own noise grid with its
+// own seed and grain size. Their deviations are made luma-neutral, so chroma noise shifts hue
+// without changing brightness, and scale each channel's coverage of the particle.
+const createDyeLayers = (settings: GrainSettings, width: number, height: number, toCells: (n: number) => number, downscale: number) => {
+  const { seed, scale, chromaNoise, channelIntensity, channelScale } = settings;
+  const layers = [0, 1, 2].map(c => {
+    const { cellSize, cellScale } = getGridCell(scale * (channelScale[c] ?? 1), downscale);
+    const noiseW = Math.max(1, toCells(width / cellSize));
+    const noiseH = Math.max(1, toCells(height / cellSize));
+    const layerSeed = hashInt(seed + 0x9e3779b9 * (c + 1));
+    const sample = createNoiseSampler({ ...settings, seed: layerSeed, scale: cellSize }, noiseW, noiseH, cellScale);
+    const columns = Array.from({ length: width }, (_, x) => Math.min(noiseW - 1, Math.floor(((x + 0.5) * noiseW) / width)));
+    let cachedY = -1;
+    const cells = new Float32Array(noiseW);
+    return (y: number) => {
+      const cy = Math.min(noiseH - 1, Math.floor(((y + 0.5) * noiseH) / height));
+      if (cy !== cachedY) {
+        const rng = createRowRandom(layerSeed, cy);
+        for (let x = 0; x < noiseW; x++) cells[x] = sample(rng, x, cy) - 0.5;
+        cachedY = cy;
+      }
+      return { cells, columns };
+    };
+  });
+
+  // Recolors a row of particles (straight RGBA) so that over `bg` each channel is covered by
+  // its own amount, folded back into one color and one coverage so every output mode still works
+  return (y: number, px: Uint8ClampedArray, [bR, bG, bB]: number[]) => {
+    const rows = layers.map(layer => layer(y));
+    const bg = [bR, bG, bB];
+    const cover = [0, 0, 0];
+    for (let x = 0, o = 0; x < width; x++, o += 4) {
+      const a = px[o + 3] / 255;
+      if (a === 0) continue;
+      const dR = rows[0].cells[rows[0].columns[x]];
+      const dG = rows[1].cells[rows[1].columns[x]];
+      const dB = rows[2].cells[rows[2].columns[x]];
+      const dL = 0.2126 * dR + 0.7152 * dG + 0.0722 * dB;
+      cover[0] = a * (channelIntensity[0] ?? 1) * Math.max(0, 1 + chromaNoise * 2 * (dR - dL));
+      cover[1] = a * (channelIntensity[1] ?? 1) * Math.max(0, 1 + chromaNoise * 2 * (dG - dL));
+      cover[2] = a * (channelIntensity[2] ?? 1) * Math.max(0, 1 + chromaNoise * 2 * (dB - dL));
+      const top = Math.min(1, Math.max(cover[0], cover[1], cover[2]));
+      if (top === 0) {
+        px[o + 3] = 0;
+        continue;
+      }
+      for (let c = 0; c < 3; c++) {
+        px[o + c] = bg[c] + (Math.min(1, cover[c]) / top) * (px[o + c] - bg[c]);
+      }
+      px[o + 3] = top * 255;
+    }
+  };
+};
+
+// Base image rows at output size with any transparency flattened onto the background color
+const createBackdropRows = (base: GrainBuffer, width: number, height: number, rows: number[], [bR, bG, bB]: number[]) => {
+  const backdrop = resampleRows(base, width, height, rows);
+  for (let i = 0; i < backdrop.length; i += 4) {
+    const a = backdrop[i + 3] / 255;
+    backdrop[i] = bR + (backdrop[i] - bR) * a;
+    backdrop[i + 1] = bG + (backdrop[i + 1] - bG) * a;
+    backdrop[i + 2] = bB + (backdrop[i + 2] - bB) * a;
+    backdrop[i + 3] = 255;
+  }
+  return backdrop;
+};
+
+// Output pixels per noise grid cell for a grain size, and how many grid cells one grain cell
+// spans: 1, unless a downscaled render can't make its grid any finer than a pixel
+const getGridCell = (scale: number, downscale: number) => {
+  const grain = Math.max(1, scale) / downscale;
+  const cellSize = Math.max(1, grain);
+  return { cellSize, cellScale: grain / cellSize };
+};
+
+// Everything one layer needs that stays the same from strip to strip
+const prepareLayer = (settings: GrainSettings, finalWidth: number, finalHeight: number, downscale: number) => {
+  const { scale, roughness, tileable, outputMode, halftoneLpi, halftoneAngle, blendMode, responseCurve } = settings;
+
+  const { cellSize, cellScale } = getGridCell(scale, downscale);
+  // Tileable output needs a whole number of grain cells across, so cells are
+  // spread evenly instead of cutting the last one short
+  const toCells = tileable ? Math.round : Math.ceil;
+  const noiseW = Math.max(1, toCells(finalWidth / cellSize));
+  const noiseH = Math.max(1, toCells(finalHeight / cellSize));
+
+  // Nearest-neighbour mapping from output pixels to grain cells
+  const columns = new Uint32Array(finalWidth);
+  for (let x = 0; x < finalWidth; x++) {
+    columns[x] = Math.min(noiseW - 1, Math.floor(((x + 0.5) * noiseW) / finalWidth));
+  }
+
+  const isDithered = !!outputMode && outputMode !== OutputMode.CONTINUOUS;
+  const screen = { lpi: halftoneLpi, angle: halftoneAngle, ppi: settings.ppi };
+  const blurSigma = roughness > 0.01 ? roughness * 10 : 0;
+  // AM dots carry the local tone of the grain rather than single particles
+  const halftoneSigma = outputMode === OutputMode.HALFTONE ? getHalftoneCellSize(screen) / 2 : 0;
+  const ditherer = isDithered ? createDitherer(finalWidth, outputMode, screen) : null;
+
+  return {
+    settings,
+    noiseRow: createNoiseRows(settings, noiseW, noiseH, cellScale),
+    cellRow: (y: number) => Math.min(noiseH - 1, Math.floor(((y + 0.5) * noiseH) / finalHeight)),
+    columns,
+    mask: createMaskRows(settings.mask, finalWidth, finalHeight),
+    dyes: settings.colorMode === ColorMode.COLOR ? createDyeLayers(settings, finalWidth, finalHeight, toCells, downscale) : null,
+    // --- Blend mode and luminance response of the pixel underneath ---
+    isNormalBlend: !blendMode || blendMode === BlendMode.NORMAL,
+    blend: getBlendFunction(blendMode),
+    response: createResponseLookup(responseCurve || []),
+    ditherer,
+    blurSigma,
+    halftoneSigma,
+    padding: getBlurReach(blurSigma) + getBlurReach(halftoneSigma),
+    lookahead: ditherer?.lookahead ?? 0,
+  };
+};
+
+type PreparedLayer = ReturnType<typeof prepareLayer>;
+
+// One strip as every layer of it sees it
+interface StripContext {
+  y0: number;
+  rows: number;
+  // Output height, for the rows error diffusion may look ahead into
+  height: number;
+  // Image rows of the padded strip, `padTop` of them above y0
+  sourceRows: number[];
+  padTop: number;
+  wrapRows: boolean;
+  // Document backdrop (base image) over the padded rows, or null for the flat bgColor
+  backdrop: Uint8ClampedArray | null;
+  bgRGB: number[];
+  // Composite so far: opaque over the backdrop, or straight-alpha grain when transparent
+  out: Uint8ClampedArray;
+  transparent: boolean;
+  stage: (fraction: number) => void;
+}
+
+// Straight-alpha source-over of one grain-only layer onto the grain-only layers below it
+const compositeOver = (out: Uint8ClampedArray, grain: Uint8ClampedArray) => {
+  for (let o = 0; o < out.length; o += 4) {
+    const sa = grain[o + 3];
+    if (sa === 0) continue;
+    const da = out[o + 3];
+    if (da === 0 || sa === 255) {
+      out[o] = grain[o];
+      out[o + 1] = grain[o + 1];
+      out[o + 2] = grain[o + 2];
+      out[o + 3] = sa;
+      continue;
+    }
+    const a = sa / 255;
+    const d = (da / 255) * (1 - a);
+    const total = a + d;
+    out[o] = (grain[o] * a + out[o] * d) / total;
+    out[o + 1] = (grain[o + 1] * a + out[o + 1] * d) / total;
+    out[o + 2] = (grain[o + 2] * a + out[o + 2] * d) / total;
+    out[o + 3] = total * 255;
+  }
+};
+
+// Renders one layer's part of a strip onto the composite of the layers below it. The
+// luminance response always follows the document backdrop, not the grain of lower layers,
+// so strips can be padded without rendering the layers below beyond their edges.
+const renderLayerStrip = (layer: PreparedLayer, strip: StripContext) => {
+  const { settings, noiseRow, cellRow, columns, mask, dyes, isNormalBlend, blend, response, ditherer, blurSigma, halftoneSigma } = layer;
+  const { y0, rows, height, sourceRows, padTop, wrapRows, backdrop, bgRGB, stage } = strip;
+  const { opacity, tileable } = settings;
+  const finalWidth = columns.length;
+  const paddedRows = sourceRows.length;
+  const [bR, bG, bB] = bgRGB;
+  // Grain-only layers are rendered on their own, then stacked onto the ones below
+  const out = strip.transparent ? new Uint8ClampedArray(strip.out.length) : strip.out;
+
+  // Grain cell rows are shared by `scale` output rows
+  const cellRows = new Map<number, Uint8ClampedArray>();
+  const cellsFor = (y: number) => {
+    const cy = cellRow(y);
+    let row = cellRows.get(cy);
+    if (!row) {
+      row = noiseRow(cy);
+      cellRows.set(cy, row);
+    }
+    return row;
+  };
+  // Particle color and coverage of every output pixel in a row (straight RGBA)
+  const pixelsFor = (y: number) => {
+    const cells = cellsFor(y);
+    const px = new Uint8ClampedArray(finalWidth * 4);
+    for (let x = 0, o = 0; x < finalWidth; x++, o += 4) {
+      const n = columns[x] * 4;
+      px[o] = cells[n];
+      px[o + 1] = cells[n + 1];
+      px[o + 2] = cells[n + 2];
+      px[o + 3] = cells[n + 3];
+    }
+    // Density masks thin out the particles before the dye layers split them
+    mask?.(y, px);
+    dyes?.(y, px, bgRGB);
+    return px;
+  };
+  const underneath = (o: number) =>
+    backdrop ? response[luminance8(backdrop[o], backdrop[o + 1], backdrop[o + 2])] : response[luminance8(bR, bG, bB)];
+
+  if (ditherer) {
+    // --- 1-bit output: coverage field, ink spread, then dither to grain or what's underneath ---
+    const field = new Float32Array(finalWidth * paddedRows);
+    for (let k = 0, i = 0; k < paddedRows; k++) {
+      const px = pixelsFor(sourceRows[k]);
+      for (let x = 0; x < finalWidth; x++, i++) {
+        field[i] = (px[x * 4 + 3] / 255) * opacity * underneath(i * 4);
+      }
+    }
+    stage(0.2);
+
+    if (blurSigma) gaussianBlur(field, finalWidth, paddedRows, blurSigma, { components: 1, wrap: tileable, wrapRows });
+    if (halftoneSigma) gaussianBlur(field, finalWidth, paddedRows, halftoneSigma, { components: 1, wrap: tileable, wrapRows });
+    stage(0.6);
+
+    // The strip plus the rows error diffusion looks ahead into
+    const fieldRows = Math.min(rows + layer.lookahead, height - y0);
+    const bits = ditherer.dither(field.subarray(padTop * finalWidth, (padTop + fieldRows) * finalWidth), y0, rows);
+    stage(0.9);
+
+    for (let y = 0, i = 0; y < rows; y++) {
+      const cells = pixelsFor(y0 + y);
+      for (let x = 0; x < finalWidth; x++, i++) {
+        if (!bits[i]) continue;
+        const o = i * 4;
+        const n = x * 4;
+        if (strip.transparent || isNormalBlend) {
+          out[o] = cells[n];
+          out[o + 1] = cells[n + 1];
+          out[o + 2] = cells[n + 2];
+        } else {
+          for (let c = 0; c < 3; c++) out[o + c] = blend(out[o + c] / 255, cells[n + c] / 255) * 255;
+        }
+        out[o + 3] = 255;
+      }
+    }
+    if (strip.transparent) compositeOver(strip.out, out);
+    stage(1);
+    return;
+  }
+
+  // --- Grain layer: nearest-neighbour upscaled, premultiplied by coverage at `opacity` ---
+  const grain = new Uint8ClampedArray(finalWidth * paddedRows * 4);
+  for (let k = 0; k < paddedRows; k++) {
+    const cells = pixelsFor(sourceRows[k]);
+    let o = k * finalWidth * 4;
+    for (let x = 0; x < finalWidth; x++, o += 4) {
+      const n = x * 4;
+      const a = (cells[n + 3] / 255) * opacity;
+      grain[o] = cells[n] * a;
+      grain[o + 1] = cells[n + 1] * a;
+      grain[o + 2] = cells[n + 2] * a;
+      grain[o + 3] = a * 255;
+    }
+  }
+  stage(0.3);
+
+  // Ink spread only softens the grain, never the background or base image
+  if (blurSigma) {
+    gaussianBlur(grain, finalWidth, paddedRows, blurSigma, {
+      wrap: tileable,
+      wrapRows,
+      channels: [0, 1, 2, 3],
+      onProgress: p => stage(0.3 + p * 0.5),
+    });
+  }
+  stage(0.8);
+
+  const start = padTop * finalWidth * 4;
+
+  if (strip.transparent) {
+    // --- Grain-only layer: response-weighted alpha, un-premultiplied for straight-alpha formats ---
+    for (let o = 0; o < out.length; o += 4) {
+      const l = start + o;
+      const a = grain[l + 3];
+      if (a === 0) continue;
+      const unpremultiply = 255 / a;
+      out[o] = grain[l] * unpremultiply;
+      out[o + 1] = grain[l + 1] * unpremultiply;
+      out[o + 2] = grain[l + 2] * unpremultiply;
+      out[o + 3] = a * underneath(l);
+    }
+    compositeOver(strip.out, out);
+    stage(1);
+    return;
+  }
+
+  // --- Composite: grain over the layers below ---
+  for (let o = 0; o < out.length; o += 4) {
+    const l = start + o;
+    const a = grain[l + 3] / 255;
+    if (a === 0) continue;
+    const r0 = out[o];
+    const g0 = out[o + 1];
+    const b0 = out[o + 2];
+    const strength = underneath(l);
+
+    if (isNormalBlend) {
+      // Source-over straight from the premultiplied layer
+      out[o] = r0 + strength * (grain[l] - r0 * a);
+      out[o + 1] = g0 + strength * (grain[l + 1] - g0 * a);
+      out[o + 2] = b0 + strength * (grain[l + 2] - b0 * a);
+    } else {
+      const mix = a * strength;
+      const unpremultiply = 1 / (a * 255);
+      out[o] = r0 + (blend(r0 / 255, grain[l] * unpremultiply) * 255 - r0) * mix;
+      out[o + 1] = g0 + (blend(g0 / 255, grain[l + 1] * unpremultiply) * 255 - g0) * mix;
+      out[o + 2] = b0 + (blend(b0 / 255, grain[l + 2] * unpremultiply) * 255 - b0) * mix;
+    }
+  }
+  stage(1);
+};
+
+// Renders the texture top to bottom in horizontal strips, so outputs far larger than one
+// canvas can be streamed into an encoder. Each strip is padded with enough neighbouring
+// rows for the blurs to see across its edges, so the strips join without seams and match
+// a single full-frame render. Visible layers are stacked bottom to top within each strip.
+export function* renderStrips(settings: GrainSettings, options: RenderOptions = {}): Generator<GrainStrip> {
+  const { bgColor, tileable } = settings;
+  const { width: finalWidth, height: finalHeight } = getOutputSize(settings);
+  const report = createProgressReporter(options.onProgress);
+  const downscale = options.downscale ?? 1;
+  const layers = getVisibleLayers(settings).map(layer => prepareLayer(layer, finalWidth, finalHeight, downscale));
+
+  // --- Background: flat bgColor, or the imported base image ---
+  const bgRGB = parseHexColor(bgColor);
+  const base = options.base || null;
+  const transparent = !!options.transparent;
+
+  const padding = Math.max(0, ...layers.map(layer => layer.padding));
+  const lookahead = Math.max(0, ...layers.map(layer => layer.lookahead));
+  const stripRows = Math.max(1, Math.round(options.stripRows ?? Math.max(16, Math.floor(STRIP_PIXELS / finalWidth))));
+  const stripCount = Math.ceil(finalHeight / stripRows);
+  // A single tileable strip wraps on itself; padded strips of a tileable image borrow rows from the opposite edge
+  const wrapRows = tileable && stripCount === 1;
+
+  for (let s = 0; s < stripCount; s++) {
+    const y0 = s * stripRows;
+    const y1 = Math.min(finalHeight, y0 + stripRows);
+    const rows = y1 - y0;
+
+    // Image rows covered by the padded strip, wrapped for tileable output
+    const padTop = wrapRows ? 0 : tileable ? padding : Math.min(padding, y0);
+    const padEnd = wrapRows ? y1 : tileable ? y1 + lookahead + padding : Math.min(finalHeight, y1 + lookahead + padding);
+    const sourceRows = Array.from({ length: padEnd - y0 + padTop }, (_, k) => {
+      const y = y0 - padTop + k;
+      return ((y % finalHeight) + finalHeight) % finalHeight;
+    });
+    const backdrop = base ? createBackdropRows(base, finalWidth, finalHeight, sourceRows, bgRGB) : null;
+
+    // Transparent output starts empty; otherwise from the base image or the flat background
+    const out = new Uint8ClampedArray(finalWidth * rows * 4);
+    if (!transparent && backdrop) {
+      out.set(backdrop.subarray(padTop * finalWidth * 4, (padTop + rows) * finalWidth * 4));
+    } else if (!transparent) {
+      for (let o = 0; o < out.length; o += 4) {
+        out[o] = bgRGB[0];
+        out[o + 1] = bgRGB[1];
+        out[o + 2] = bgRGB[2];
+        out[o + 3] = 255;
+      }
+    }
+
+    layers.forEach((layer, k) => {
+      const stage = (fraction: number) => report((s + (k + fraction) / layers.length) / stripCount);
+      renderLayerStrip(layer, { y0, rows, height: finalHeight, sourceRows, padTop, wrapRows, backdrop, bgRGB, out, transparent, stage });
+    });
+    report((s + 1) / stripCount);
+    yield { y: y0, buffer: { width: finalWidth, height: rows, data: out } };
+  }
+}
+
+// Whole frame in one buffer, for the live preview and canvas-sized exports
+export const renderGrain = (settings: GrainSettings, options: RenderOptions = {}): GrainBuffer => {
+  const { width, height } = getOutputSize(settings);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (const strip of renderStrips(settings, options)) {
+    data.set(strip.buffer.data, strip.y * width * 4);
+  }
+  return { width, height, data };
+};
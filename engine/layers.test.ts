@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { BlendMode, DEFAULT_SETTINGS, GrainSettings, GrainTexture, OutputMode } from '../types';
+import { applyLayerPatch, getBaseStyle, getLayerSettings } from './layers';
+
+const stacked: GrainSettings = {
+  ...DEFAULT_SETTINGS,
+  layers: [
+    { name: 'Dust', visible: true, settings: { ...getBaseStyle(DEFAULT_SETTINGS), intensity: 0.3 } },
+    { name: 'Fibers', visible: true, settings: { ...getBaseStyle(DEFAULT_SETTINGS), texture: GrainTexture.PAPER_FIBER } },
+  ],
+};
+
+describe('applyLayerPatch', () => {
+  const patch = { intensity: 0.8, blendMode: BlendMode.MULTIPLY, bgColor: '#EEE8DD', outputMode: OutputMode.CONTINUOUS };
+
+  it('writes the base layer into the top-level fields', () => {
+    expect(applyLayerPatch(stacked, 0, patch)).toEqual({ ...stacked, ...patch });
+  });
+
+  it('sends style fields to an upper layer and document fields to the top level', () => {
+    const next = applyLayerPatch(stacked, 1, patch);
+    expect(getLayerSettings(next, 1)).toMatchObject(patch);
+    expect(next.intensity).toBe(stacked.intensity);
+    expect(next.blendMode).toBe(stacked.blendMode);
+    expect(next.bgColor).toBe('#EEE8DD');
+    expect(next.layers[1]).toBe(stacked.layers[1]);
+    expect(next.layers[0].settings).not.toHaveProperty('bgColor');
+  });
+
+  it('falls back to the base layer when the index is gone', () => {
+    expect(applyLayerPatch(stacked, 5, patch)).toEqual({ ...stacked, ...patch });
+  });
+});
@@ -0,0 +1,48 @@
+import { GrainSettings, GrainLayer, LayerStyle, LAYER_FIELDS } from '../types';
+
+// Style of the bottom layer, which lives in the top-level fields
+export const getBaseStyle = (settings: GrainSettings) =>
+  Object.fromEntries(LAYER_FIELDS.map(key => [key, settings[key]])) as LayerStyle;
+
+// The whole stack, bottom to top
+export const getLayerStack = (settings: GrainSettings): GrainLayer[] => [
+  { ...settings.baseLayer, settings: getBaseStyle(settings) },
+  ...settings.layers,
+];
+
+// Writes a reordered or edited stack back; its first layer becomes the top-level fields
+export const setLayerStack = (settings: GrainSettings, stack: GrainLayer[]): GrainSettings => {
+  const [{ name, visible, settings: style }, ...layers] = stack;
+  return { ...settings, ...style, baseLayer: { name, visible }, layers };
+};
+
+// Document settings with one layer's style on top, as the sidebar controls show it
+export const getLayerSettings = (settings: GrainSettings, index: number): GrainSettings =>
+  index === 0 || !settings.layers[index - 1] ? settings : { ...settings, ...settings.layers[index - 1].settings };
+
+// Applies a recipe to the layer at `index`: its style fields go to that layer, anything else
+// (paper color, output mode) to the document
+export const applyLayerPatch = (settings: GrainSettings, index: number, patch: Partial<GrainSettings>): GrainSettings => {
+  if (index === 0 || !settings.layers[index - 1]) return { ...settings, ...patch };
+  const isStyle = ([key]: [string, unknown]) => (LAYER_FIELDS as readonly string[]).includes(key);
+  const entries = Object.entries(patch);
+  const style = Object.fromEntries(entries.filter(isStyle)) as Partial<LayerStyle>;
+  return {
+    ...settings,
+    ...Object.fromEntries(entries.filter(entry => !isStyle(entry))),
+    layers: settings.layers.map((layer, i) => (i === index - 1 ? { ...layer, settings: { ...layer.settings, ...style } } : layer)),
+  };
+};
+
+// Patches the style of every layer, e.g. to move all seeds together
+export const mapLayerStyles = (
+  settings: GrainSettings,
+  patch: (style: LayerStyle, index: number) => Partial<LayerStyle>
+): GrainSettings =>
+  setLayerStack(settings, getLayerStack(settings).map((layer, i) => ({ ...layer, settings: { ...layer.settings, ...patch(layer.settings, i) } })));
+
+// Visible layers bottom to top, each as a single-layer document for the renderer
+export const getVisibleLayers = (settings: GrainSettings): GrainSettings[] =>
+  getLayerStack(settings)
+    .filter(layer => layer.visible)
+    .map(layer => ({ ...settings, ...layer.settings, layers: [] }));
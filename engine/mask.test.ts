@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, GrainMask, MaskShape } from '../types';
+import { packBitsDecode, packBitsEncode } from '../codecs/packbits';
+import { createMaskRows, decodePaintedMask, encodePaintedMask, getPaintedMaskSize } from './mask';
+
+const mask = (patch: Partial<GrainMask> = {}): GrainMask => ({ ...DEFAULT_SETTINGS.mask, ...patch });
+
+// Alpha a mask leaves on one opaque row
+const rowAlpha = (rows: ReturnType<typeof createMaskRows>, width: number, y: number) => {
+  const px = new Uint8ClampedArray(width * 4).fill(255);
+  rows!(y, px);
+  return Array.from({ length: width }, (_, x) => px[x * 4 + 3]);
+};
+
+describe('packBits', () => {
+  it('round-trips runs, literals and long stretches of both', () => {
+    const input = Uint8Array.from([
+      ...new Array(300).fill(7),
+      1, 2, 3, 4, 4, 5,
+      ...Array.from({ length: 400 }, (_, i) => (i * 37) % 256),
+      9, 9,
+    ]);
+    const packed = packBitsEncode(input);
+    expect(packed.length).toBeLessThan(input.length);
+    expect(packBitsDecode(packed, input.length)).toEqual(input);
+  });
+
+  it('returns null for data that runs short or overflows', () => {
+    const packed = packBitsEncode(new Uint8Array(10).fill(3));
+    expect(packBitsDecode(packed, 11)).toBeNull();
+    expect(packBitsDecode(packed, 9)).toBeNull();
+    expect(packBitsDecode(Uint8Array.of(5, 1, 2), 6)).toBeNull();
+  });
+});
+
+describe('painted masks', () => {
+  it('keeps the canvas aspect at the mask resolution', () => {
+    expect(getPaintedMaskSize(4000, 2000)).toEqual({ width: 256, height: 128 });
+  });
+
+  it('round-trips densities through the recipe text', () => {
+    const densities = Uint8Array.from({ length: 16 * 8 }, (_, i) => (i < 40 ? 255 : i % 3 ? 0 : 128));
+    const painted = encodePaintedMask(16, 8, densities)!;
+    expect(painted).toMatchObject({ width: 16, height: 8 });
+    expect(decodePaintedMask(painted)).toEqual(densities);
+  });
+
+  it('stores nothing when nothing is painted out', () => {
+    expect(encodePaintedMask(4, 4, new Uint8Array(16).fill(255))).toBeNull();
+  });
+
+  it('rejects damaged data', () => {
+    expect(decodePaintedMask({ width: 4, height: 4, data: '%%%' })).toBeNull();
+    expect(decodePaintedMask({ width: 4, height: 4, data: btoa('\x00\x01') })).toBeNull();
+  });
+});
+
+describe('createMaskRows', () => {
+  it('leaves the grain alone without a shape or painting', () => {
+    expect(createMaskRows(undefined, 8, 8)).toBeNull();
+    expect(createMaskRows(mask({ shape: MaskShape.NONE }), 8, 8)).toBeNull();
+  });
+
+  it('ramps a linear mask across the canvas', () => {
+    const alpha = rowAlpha(createMaskRows(mask({ shape: MaskShape.LINEAR, angle: 0, start: 0, end: 1, from: 0, to: 1 }), 64, 4), 64, 0);
+    expect(alpha[0]).toBeLessThan(5);
+    expect(alpha[63]).toBeGreaterThan(250);
+    expect(alpha).toEqual([...alpha].sort((a, b) => a - b));
+  });
+
+  it('scales the alpha by the painted density', () => {
+    const painted = encodePaintedMask(2, 1, Uint8Array.of(0, 255));
+    const alpha = rowAlpha(createMaskRows(mask({ shape: MaskShape.NONE, painted }), 8, 1), 8, 0);
+    expect(alpha[0]).toBe(0);
+    expect(alpha[7]).toBe(255);
+  });
+});
@@ -0,0 +1,90 @@
+import { GrainMask, MaskShape, PaintedMask, APP_LIMITS } from '../types';
+import { packBitsDecode, packBitsEncode } from '../codecs/packbits';
+
+const smoothstep = (t: number) => (t <= 0 ? 0 : t >= 1 ? 1 : t * t * (3 - 2 * t));
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// Painted masks keep the canvas aspect at MASK_RESOLUTION on the long side; they're stretched
+// to the output, so the same recipe paints the same areas at any export size
+export const getPaintedMaskSize = (width: number, height: number) => {
+  const ratio = APP_LIMITS.MASK_RESOLUTION / Math.max(width, height);
+  return { width: Math.max(1, Math.round(width * ratio)), height: Math.max(1, Math.round(height * ratio)) };
+};
+
+// Null when nothing is painted out, so untouched masks don't weigh down the recipe
+export const encodePaintedMask = (width: number, height: number, densities: Uint8Array): PaintedMask | null =>
+  densities.every(v => v === 255) ? null : { width, height, data: toBase64(packBitsEncode(densities)) };
+
+// Densities row by row, or null when the data is damaged
+export const decodePaintedMask = ({ width, height, data }: PaintedMask): Uint8Array | null => {
+  try {
+    return packBitsDecode(Uint8Array.from(atob(data), c => c.charCodeAt(0)), width * height);
+  } catch {
+    return null;
+  }
+};
+
+// Density (0 to 1) of the gradient at a position along its ramp
+const createRamp = ({ start, end, from, to }: GrainMask) => (t: number) => {
+  const k = end > start ? smoothstep((t - start) / (end - start)) : t >= start ? 1 : 0;
+  return from + (to - from) * k;
+};
+
+// Scales the coverage of one row of output pixels (straight RGBA) by the mask density.
+// Null when the mask leaves the grain as it is.
+export const createMaskRows = (mask: GrainMask | undefined, width: number, height: number) => {
+  if (!mask) return null;
+  const painted = mask.painted ? decodePaintedMask(mask.painted) : null;
+  if (mask.shape === MaskShape.NONE && !painted) return null;
+
+  const ramp = createRamp(mask);
+  const angle = (mask.angle * Math.PI) / 180;
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  // Half the canvas' extent along the gradient, so the ramp spans edge to edge at any angle
+  const extent = (width * Math.abs(dx) + height * Math.abs(dy)) / 2 || 1;
+  const density = new Float32Array(width);
+
+  return (y: number, px: Uint8ClampedArray) => {
+    const py = y + 0.5;
+    for (let x = 0; x < width; x++) {
+      const pxX = x + 0.5;
+      switch (mask.shape) {
+        case MaskShape.LINEAR:
+          density[x] = ramp(((pxX - width / 2) * dx + (py - height / 2) * dy + extent) / (2 * extent));
+          break;
+        case MaskShape.RADIAL:
+          // Elliptical with the canvas, reaching 1 at the corners when centered
+          density[x] = ramp(Math.hypot(pxX / width - mask.centerX, py / height - mask.centerY) * Math.SQRT2);
+          break;
+        default:
+          density[x] = 1;
+      }
+    }
+
+    if (painted && mask.painted) {
+      // Bilinear, so the low-res strokes stay soft at any output size
+      const { width: mw, height: mh } = mask.painted;
+      const sy = Math.min(mh - 1, Math.max(0, (py * mh) / height - 0.5));
+      const y0 = Math.floor(sy);
+      const y1 = Math.min(mh - 1, y0 + 1);
+      const fy = sy - y0;
+      for (let x = 0; x < width; x++) {
+        const sx = Math.min(mw - 1, Math.max(0, ((x + 0.5) * mw) / width - 0.5));
+        const x0 = Math.floor(sx);
+        const x1 = Math.min(mw - 1, x0 + 1);
+        const fx = sx - x0;
+        const top = painted[y0 * mw + x0] + (painted[y0 * mw + x1] - painted[y0 * mw + x0]) * fx;
+        const bottom = painted[y1 * mw + x0] + (painted[y1 * mw + x1] - painted[y1 * mw + x0]) * fx;
+        density[x] *= (top + (bottom - top) * fy) / 255;
+      }
+    }
+
+    for (let x = 0, o = 3; x < width; x++, o += 4) px[o] *= density[x];
+  };
+};
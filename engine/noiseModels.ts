@@ -0,0 +1,326 @@
+import { GrainSettings, GrainTexture } from '../types';
+import { createRandom, hashInt } from './random';
+
+// Structured models return a 0-1 value per grain cell instead of drawing from the shared stream
+export type TextureSampler = (x: number, y: number) => number;
+
+// --- Blue noise (void-and-cluster) ---
+
+const BLUE_NOISE_SIZE = 64;
+const BLUE_NOISE_SIGMA = 1.5;
+const BLUE_NOISE_RADIUS = 6;
+
+// Recently built tiles by seed, least recently used first. COLOR mode and layer stacks
+// ask for several seeds per render, so one entry would rebuild them every time.
+const BLUE_NOISE_CACHE_SIZE = 8;
+const blueNoiseCache = new Map<number, Float32Array>();
+
+const getBlueNoise = (seed: number) => {
+  let ranks = blueNoiseCache.get(seed);
+  if (ranks) {
+    blueNoiseCache.delete(seed);
+  } else {
+    ranks = buildBlueNoise(seed);
+    if (blueNoiseCache.size >= BLUE_NOISE_CACHE_SIZE) blueNoiseCache.delete(blueNoiseCache.keys().next().value!);
+  }
+  blueNoiseCache.set(seed, ranks);
+  return ranks;
+};
+
+// Ulichney's void-and-cluster on a toroidal tile, so the threshold matrix repeats seamlessly
+const buildBlueNoise = (seed: number) => {
+  const n = BLUE_NOISE_SIZE;
+  const total = n * n;
+  const rng = createRandom(seed);
+
+  const kernelSize = BLUE_NOISE_RADIUS * 2 + 1;
+  const kernel = new Float32Array(kernelSize * kernelSize);
+  for (let dy = -BLUE_NOISE_RADIUS; dy <= BLUE_NOISE_RADIUS; dy++) {
+    for (let dx = -BLUE_NOISE_RADIUS; dx <= BLUE_NOISE_RADIUS; dx++) {
+      kernel[(dy + BLUE_NOISE_RADIUS) * kernelSize + dx + BLUE_NOISE_RADIUS] =
+        Math.exp(-(dx * dx + dy * dy) / (2 * BLUE_NOISE_SIGMA * BLUE_NOISE_SIGMA));
+    }
+  }
+
+  const bits = new Uint8Array(total);
+  const energy = new Float32Array(total);
+
+  const splat = (p: number, sign: number) => {
+    const px = p % n;
+    const py = (p - px) / n;
+    for (let dy = -BLUE_NOISE_RADIUS; dy <= BLUE_NOISE_RADIUS; dy++) {
+      const row = ((py + dy + n) % n) * n;
+      for (let dx = -BLUE_NOISE_RADIUS; dx <= BLUE_NOISE_RADIUS; dx++) {
+        energy[row + ((px + dx + n) % n)] += sign * kernel[(dy + BLUE_NOISE_RADIUS) * kernelSize + dx + BLUE_NOISE_RADIUS];
+      }
+    }
+  };
+  const set = (p: number, on: boolean) => {
+    bits[p] = on ? 1 : 0;
+    splat(p, on ? 1 : -1);
+  };
+  const tightestCluster = () => {
+    let best = -1;
+    for (let p = 0; p < total; p++) if (bits[p] && (best < 0 || energy[p] > energy[best])) best = p;
+    return best;
+  };
+  const largestVoid = () => {
+    let best = -1;
+    for (let p = 0; p < total; p++) if (!bits[p] && (best < 0 || energy[p] < energy[best])) best = p;
+    return best;
+  };
+
+  // Initial random pattern, relaxed until removing the tightest cluster would just refill the same spot
+  let ones = 0;
+  for (let p = 0; p < total; p++) {
+    if (rng() < 0.1) {
+      set(p, true);
+      ones++;
+    }
+  }
+  if (ones === 0) {
+    set(0, true);
+    ones = 1;
+  }
+  for (let guard = 0; guard < total; guard++) {
+    const cluster = tightestCluster();
+    set(cluster, false);
+    const hole = largestVoid();
+    set(hole, true);
+    if (hole === cluster) break;
+  }
+
+  const prototype = bits.slice();
+  const prototypeEnergy = energy.slice();
+  const ranks = new Float32Array(total);
+
+  // Phase 1: rank the initial points by removing clusters
+  for (let rank = ones - 1; rank >= 0; rank--) {
+    const cluster = tightestCluster();
+    set(cluster, false);
+    ranks[cluster] = rank;
+  }
+
+  // Phase 2: fill the remaining voids in order
+  bits.set(prototype);
+  energy.set(prototypeEnergy);
+  for (let rank = ones; rank < total; rank++) {
+    const hole = largestVoid();
+    set(hole, true);
+    ranks[hole] = rank;
+  }
+
+  for (let p = 0; p < total; p++) ranks[p] = (ranks[p] + 0.5) / total;
+  return ranks;
+};
+
+const createBlueNoiseSampler = (
+  seed: number,
+  noiseW: number,
+  noiseH: number,
+  tileable: boolean,
+  cellScale: number
+): TextureSampler => {
+  const ranks = getBlueNoise(seed);
+  const n = BLUE_NOISE_SIZE;
+  // Tileable grids fit a whole number of tiles across, stretched slightly when the grid
+  // isn't a multiple of the tile, so the pattern wraps at the edges
+  const stepX = tileable ? (Math.max(1, Math.round(noiseW / (n * cellScale))) * n) / noiseW : 1 / cellScale;
+  const stepY = tileable ? (Math.max(1, Math.round(noiseH / (n * cellScale))) * n) / noiseH : 1 / cellScale;
+  return (x, y) => ranks[(Math.floor(y * stepY) % n) * n + (Math.floor(x * stepX) % n)];
+};
+
+// --- Fractal Perlin noise ---
+
+// Lattice spacing of the first octave, in grain cells
+const PERLIN_BASE_CELL = 16;
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+const createPerlinSampler = (
+  seed: number,
+  octaves: number,
+  persistence: number,
+  noiseW: number,
+  noiseH: number,
+  tileable: boolean,
+  cellScale: number
+): TextureSampler => {
+  const baseCell = PERLIN_BASE_CELL * cellScale;
+  const layers = Array.from({ length: Math.max(1, Math.round(octaves)) }, (_, octave) => {
+    const frequency = 2 ** octave;
+    // Tileable lattices get a whole number of periods across the grid
+    const periodX = tileable ? Math.max(1, Math.round((noiseW * frequency) / baseCell)) : 0;
+    const periodY = tileable ? Math.max(1, Math.round((noiseH * frequency) / baseCell)) : 0;
+
+    // Seeded permutation and unit gradients, one set per octave
+    const rng = createRandom(seed + octave * 1013);
+    const perm = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) perm[i] = i;
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      const tmp = perm[i]; perm[i] = perm[j]; perm[j] = tmp;
+    }
+    const gradX = new Float32Array(256);
+    const gradY = new Float32Array(256);
+    for (let i = 0; i < 256; i++) {
+      const angle = rng() * Math.PI * 2;
+      gradX[i] = Math.cos(angle);
+      gradY[i] = Math.sin(angle);
+    }
+
+    return {
+      perm,
+      gradX,
+      gradY,
+      amplitude: persistence ** octave,
+      stepX: tileable ? periodX / noiseW : frequency / baseCell,
+      stepY: tileable ? periodY / noiseH : frequency / baseCell,
+      periodX,
+      periodY,
+    };
+  });
+  const norm = layers.reduce((sum, layer) => sum + layer.amplitude, 0) || 1;
+
+  type Layer = (typeof layers)[number];
+  const gradientDot = (layer: Layer, ix: number, iy: number, dx: number, dy: number) => {
+    const g = layer.perm[(layer.perm[ix & 255] + iy) & 255];
+    return layer.gradX[g] * dx + layer.gradY[g] * dy;
+  };
+
+  return (x, y) => {
+    let sum = 0;
+    for (const layer of layers) {
+      const fx = (x + 0.5) * layer.stepX;
+      const fy = (y + 0.5) * layer.stepY;
+      let x0 = Math.floor(fx);
+      let y0 = Math.floor(fy);
+      const dx = fx - x0;
+      const dy = fy - y0;
+      let x1 = x0 + 1;
+      let y1 = y0 + 1;
+      if (layer.periodX) {
+        x0 %= layer.periodX;
+        x1 %= layer.periodX;
+        y0 %= layer.periodY;
+        y1 %= layer.periodY;
+      }
+      const u = fade(dx);
+      const v = fade(dy);
+      const top = gradientDot(layer, x0, y0, dx, dy) * (1 - u) + gradientDot(layer, x1, y0, dx - 1, dy) * u;
+      const bottom = gradientDot(layer, x0, y1, dx, dy - 1) * (1 - u) + gradientDot(layer, x1, y1, dx - 1, dy - 1) * u;
+      sum += (top * (1 - v) + bottom * v) * layer.amplitude;
+    }
+    // 2D Perlin stays within ±0.71
+    return Math.min(1, Math.max(0, 0.5 + (sum / norm) * 0.7071));
+  };
+};
+
+// --- Paper fiber ---
+
+// Strokes are seeded per block of grid cells so any band of rows can be built on its own.
+// A stroke is at most FIBER_MAX_LENGTH grain cells long, so it never leaves the neighbouring blocks.
+const FIBER_BLOCK = 32;
+const FIBER_MIN_LENGTH = 8;
+const FIBER_MAX_LENGTH = 32;
+// Expected deposit per cell: one stroke per 16 cells × mean weight 0.65 × about 41 steps
+const FIBER_MEAN = (0.65 * 41) / 16;
+
+const createFiberSampler = (
+  seed: number,
+  angle: number,
+  noiseW: number,
+  noiseH: number,
+  tileable: boolean,
+  cellScale: number
+): TextureSampler => {
+  const baseAngle = (angle * Math.PI) / 180;
+  const blocksX = Math.ceil(noiseW / FIBER_BLOCK);
+  const blocksY = Math.ceil(noiseH / FIBER_BLOCK);
+
+  // Deposits every stroke that reaches block row `by` into a FIBER_BLOCK-tall band
+  const buildBand = (by: number) => {
+    const band = new Float32Array(FIBER_BLOCK * noiseW);
+    const top = by * FIBER_BLOCK;
+    const sourceRows = new Set<number>();
+    // Wrapping past a short last block row can carry strokes one block further
+    const reach = tileable ? 2 : 1;
+    for (let dy = -reach; dy <= reach; dy++) {
+      const row = by + dy;
+      if (tileable) sourceRows.add(((row % blocksY) + blocksY) % blocksY);
+      else if (row >= 0 && row < blocksY) sourceRows.add(row);
+    }
+
+    for (const sy of sourceRows) {
+      for (let bx = 0; bx < blocksX; bx++) {
+        const x0 = bx * FIBER_BLOCK;
+        const y0 = sy * FIBER_BLOCK;
+        const blockW = Math.min(FIBER_BLOCK, noiseW - x0);
+        const blockH = Math.min(FIBER_BLOCK, noiseH - y0);
+        const rng = createRandom(hashInt(hashInt(seed) ^ (sy * blocksX + bx)));
+        // One stroke per 16 grain cells; on a coarser grid they're shorter and cover less of a cell
+        const count = Math.max(1, Math.round((blockW * blockH) / (16 * cellScale * cellScale)));
+
+        // Short oriented strokes, jittered ±15° around the fiber direction
+        for (let i = 0; i < count; i++) {
+          let x = x0 + rng() * blockW;
+          let y = y0 + rng() * blockH;
+          const length = (FIBER_MIN_LENGTH + rng() * (FIBER_MAX_LENGTH - FIBER_MIN_LENGTH)) * cellScale;
+          const theta = baseAngle + (rng() - 0.5) * (Math.PI / 6);
+          const weight = (0.3 + rng() * 0.7) * cellScale;
+          const stepX = Math.cos(theta) * 0.5;
+          const stepY = Math.sin(theta) * 0.5;
+
+          for (let s = 0; s < length * 2; s++, x += stepX, y += stepY) {
+            let cx = Math.floor(x);
+            let cy = Math.floor(y);
+            if (tileable) {
+              cx = ((cx % noiseW) + noiseW) % noiseW;
+              cy = ((cy % noiseH) + noiseH) % noiseH;
+            } else if (cx < 0 || cx >= noiseW) {
+              continue;
+            }
+            const local = cy - top;
+            if (local < 0 || local >= FIBER_BLOCK) continue;
+            band[local * noiseW + cx] += weight;
+          }
+        }
+      }
+    }
+    return band;
+  };
+
+  // Rows are read top to bottom, so the current and previous band are enough
+  const bands = new Map<number, Float32Array>();
+  return (x, y) => {
+    const by = Math.floor(y / FIBER_BLOCK);
+    let band = bands.get(by);
+    if (!band) {
+      band = buildBand(by);
+      bands.set(by, band);
+      if (bands.size > 2) bands.delete(bands.keys().next().value!);
+    }
+    return Math.min(1, band[(y - by * FIBER_BLOCK) * noiseW + x] / (2 * FIBER_MEAN));
+  };
+};
+
+// `cellScale` is the width of a grain cell in grid cells, below 1 for downscaled stand-ins
+// whose grid can't get finer than a pixel; the structures are drawn at that fraction of their size
+export const createTextureSampler = (
+  settings: GrainSettings,
+  noiseW: number,
+  noiseH: number,
+  cellScale = 1
+): TextureSampler | null => {
+  const { texture, seed, octaves, persistence, fiberAngle, tileable } = settings;
+  switch (texture) {
+    case GrainTexture.BLUE_NOISE:
+      return createBlueNoiseSampler(seed, noiseW, noiseH, tileable, cellScale);
+    case GrainTexture.PERLIN:
+      return createPerlinSampler(seed, octaves, persistence, noiseW, noiseH, tileable, cellScale);
+    case GrainTexture.PAPER_FIBER:
+      return createFiberSampler(seed, fiberAngle, noiseW, noiseH, tileable, cellScale);
+    default:
+      return null;
+  }
+};
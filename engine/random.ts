@@ -0,0 +1,29 @@
+// Simple seeded PRNG (Mulberry32)
+export const createRandom = (seed: number) => {
+  let s = seed;
+  return () => {
+    let t = (s += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export type Random = ReturnType<typeof createRandom>;
+
+// Stateless 32-bit integer hash (lowbias32), for values that must not depend on draw order
+export const hashInt = (x: number) => {
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x7feb352d);
+  x ^= x >>> 15;
+  x = Math.imul(x, 0x846ca68b);
+  x ^= x >>> 16;
+  return x >>> 0;
+};
+
+// 0-1 value for a lattice point, stable for a given seed whatever order points are visited in
+export const hashCoords = (seed: number, x: number, y: number) =>
+  hashInt(hashInt(hashInt(seed) ^ x) ^ y) / 4294967296;
+
+// Independent stream per grid row, so any band of rows can be generated on its own
+export const createRowRandom = (seed: number, row: number) => createRandom(hashInt(hashInt(seed) + row));
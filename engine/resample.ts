@@ -0,0 +1,42 @@
+import type { GrainBuffer } from './grainEngine';
+
+// Bilinear stretch of selected output rows of an RGBA buffer scaled to width × height,
+// packed one after another; lets strips pull just the rows they cover
+export const resampleRows = (src: GrainBuffer, width: number, height: number, rows: ArrayLike<number>): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(width * rows.length * 4);
+  if (src.width === width && src.height === height) {
+    for (let k = 0; k < rows.length; k++) {
+      data.set(src.data.subarray(rows[k] * width * 4, (rows[k] + 1) * width * 4), k * width * 4);
+    }
+    return data;
+  }
+
+  const sx = src.width / width;
+  const sy = src.height / height;
+  const columns = Array.from({ length: width }, (_, x) => {
+    const fx = Math.min(Math.max((x + 0.5) * sx - 0.5, 0), src.width - 1);
+    const x0 = Math.floor(fx);
+    return { x0, x1: Math.min(x0 + 1, src.width - 1), tx: fx - x0 };
+  });
+
+  for (let k = 0; k < rows.length; k++) {
+    const fy = Math.min(Math.max((rows[k] + 0.5) * sy - 0.5, 0), src.height - 1);
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(y0 + 1, src.height - 1);
+    const ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const { x0, x1, tx } = columns[x];
+      const a = (y0 * src.width + x0) * 4;
+      const b = (y0 * src.width + x1) * 4;
+      const c = (y1 * src.width + x0) * 4;
+      const d = (y1 * src.width + x1) * 4;
+      const o = (k * width + x) * 4;
+      for (let ch = 0; ch < 4; ch++) {
+        const top = src.data[a + ch] + (src.data[b + ch] - src.data[a + ch]) * tx;
+        const bottom = src.data[c + ch] + (src.data[d + ch] - src.data[c + ch]) * tx;
+        data[o + ch] = top + (bottom - top) * ty;
+      }
+    }
+  }
+  return data;
+};
@@ -0,0 +1,28 @@
+import { GrainSettings } from '../types';
+import { RenderOptions, getOutputSize, renderStrips } from './grainEngine';
+import { createPngWriter } from '../codecs/png';
+import { createTiffWriter, TiffCompression } from '../codecs/tiff';
+
+// Encode the full-resolution file strip by strip instead of returning pixels
+export interface StreamedEncoding {
+  format: 'PNG' | 'TIFF';
+  tiffCompression: TiffCompression;
+  // PNG text chunks
+  text?: Record<string, string>;
+}
+
+// Each strip goes straight into the encoder, so the full frame never exists in memory.
+// Used by the export worker and the CLI; returns the file as a list of parts.
+export const encodeStrips = async (settings: GrainSettings, options: RenderOptions, { format, tiffCompression, text }: StreamedEncoding) => {
+  const { width, height } = getOutputSize(settings);
+  const alpha = !!options.transparent;
+  const writer =
+    format === 'TIFF'
+      ? createTiffWriter(width, height, { compression: tiffCompression, alpha, ppi: settings.ppi })
+      : createPngWriter(width, height, { alpha, ppi: settings.ppi, text });
+
+  for (const strip of renderStrips(settings, options)) {
+    await writer.write(strip.buffer);
+  }
+  return writer.close();
+};
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { GrainSettings } from '../types';
+import {
+  LibraryEntry, LibraryImportResult, listLibrary, putLibraryEntry, deleteLibraryEntry,
+  createLibraryEntry, createLibraryFile, importLibraryFile, normalizeTags,
+} from '../services/libraryService';
+
+// The saved recipe library, loaded from IndexedDB and kept in sync after every change
+export const useRecipeLibrary = () => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setEntries(await listLibrary());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load recipe library', err);
+      setError('The recipe library is unavailable in this browser.');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const save = async (recipe: { name: string; description?: string; tags?: string[]; settings: GrainSettings }) => {
+    const entry = await createLibraryEntry(recipe);
+    await putLibraryEntry(entry);
+    await reload();
+    return entry;
+  };
+
+  const update = async (id: string, changes: Partial<Pick<LibraryEntry, 'name' | 'tags' | 'favorite'>>) => {
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return;
+    const next = { ...entry, ...changes, updatedAt: Date.now() };
+    next.name = next.name.trim() || entry.name;
+    next.tags = normalizeTags(next.tags);
+    await putLibraryEntry(next);
+    await reload();
+  };
+
+  const remove = async (id: string) => {
+    await deleteLibraryEntry(id);
+    await reload();
+  };
+
+  const exportAll = () => createLibraryFile(entries);
+
+  const importFile = async (file: Blob): Promise<LibraryImportResult> => {
+    const result = await importLibraryFile(file);
+    await reload();
+    return result;
+  };
+
+  return { entries, error, save, update, remove, exportAll, importFile };
+};
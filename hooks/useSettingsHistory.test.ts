@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../types';
+import { HistoryAction, HistoryState, createHistory, historyReducer } from './useSettingsHistory';
+
+// A change of one field, as a control would dispatch it
+const set = (key: 'intensity' | 'scale', value: number, time: number, gesture: number | null = null, coalesce = true): HistoryAction => ({
+  type: 'set',
+  update: prev => ({ ...prev, [key]: value }),
+  time,
+  gesture,
+  coalesce,
+});
+
+const run = (...actions: HistoryAction[]) => actions.reduce<HistoryState>(historyReducer, createHistory(DEFAULT_SETTINGS));
+
+// Intensity of every undo step, oldest first, then the present
+const intensities = (state: HistoryState) => [...state.past, state.present].map(s => s.intensity);
+
+describe('historyReducer', () => {
+  it('folds one pointer drag into a single step', () => {
+    const state = run(set('intensity', 0.3, 0, 1), set('intensity', 0.4, 2000, 1), set('intensity', 0.5, 4000, 1));
+    expect(intensities(state)).toEqual([DEFAULT_SETTINGS.intensity, 0.5]);
+  });
+
+  it('starts a new step with the next pointer press, however soon', () => {
+    const state = run(set('intensity', 0.3, 0, 1), set('intensity', 0.4, 10, 2));
+    expect(intensities(state)).toEqual([DEFAULT_SETTINGS.intensity, 0.3, 0.4]);
+  });
+
+  it('folds changes without a pointer inside the time window only', () => {
+    expect(intensities(run(set('intensity', 0.3, 0), set('intensity', 0.4, 500)))).toEqual([DEFAULT_SETTINGS.intensity, 0.4]);
+    expect(intensities(run(set('intensity', 0.3, 0), set('intensity', 0.4, 700)))).toEqual([DEFAULT_SETTINGS.intensity, 0.3, 0.4]);
+  });
+
+  it('keeps a step per change of a different field or without coalescing', () => {
+    expect(run(set('intensity', 0.3, 0, 1), set('scale', 3, 10, 1)).past).toHaveLength(2);
+    expect(run(set('intensity', 0.3, 0, 1), set('intensity', 0.4, 10, 1, false)).past).toHaveLength(2);
+  });
+
+  it('does not fold a pointer drag into a keyboard change or the other way round', () => {
+    expect(run(set('intensity', 0.3, 0), set('intensity', 0.4, 10, 1)).past).toHaveLength(2);
+    expect(run(set('intensity', 0.3, 0, 1), set('intensity', 0.4, 10)).past).toHaveLength(2);
+  });
+
+  it('ignores updates that change nothing', () => {
+    const state = run(set('intensity', 0.3, 0));
+    expect(historyReducer(state, set('intensity', 0.3, 5000))).toBe(state);
+  });
+
+  it('undoes and redoes whole steps', () => {
+    const state = run(set('intensity', 0.3, 0, 1), set('intensity', 0.4, 10, 1), set('intensity', 0.6, 20, 2), { type: 'undo' });
+    expect(state.present.intensity).toBe(0.4);
+    expect(historyReducer(state, { type: 'undo' }).present.intensity).toBe(DEFAULT_SETTINGS.intensity);
+    expect(historyReducer(state, { type: 'redo' }).present.intensity).toBe(0.6);
+  });
+
+  it('never folds across an undo, even in the same drag', () => {
+    const state = run(set('intensity', 0.3, 0, 1), set('intensity', 0.4, 10, 1), { type: 'undo' }, set('intensity', 0.5, 20, 1));
+    expect(intensities(state)).toEqual([DEFAULT_SETTINGS.intensity, 0.5]);
+    expect(historyReducer(state, { type: 'undo' }).present).toBe(DEFAULT_SETTINGS);
+  });
+
+  it('drops the redo stack on a new change and stops at either end', () => {
+    const undone = run(set('intensity', 0.3, 0), { type: 'undo' });
+    expect(historyReducer(undone, set('scale', 3, 10)).future).toEqual([]);
+    expect(historyReducer(undone, { type: 'undo' })).toBe(undone);
+    const redone = historyReducer(undone, { type: 'redo' });
+    expect(historyReducer(redone, { type: 'redo' })).toBe(redone);
+  });
+
+  it('keeps at most 100 steps', () => {
+    const actions = Array.from({ length: 150 }, (_, i) => set('intensity', (i + 1) / 1000, i * 1000));
+    expect(run(...actions).past).toHaveLength(100);
+  });
+});
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { GrainSettings } from '../types';
+
+export interface SettingsSnapshot {
+  id: number;
+  name: string;
+  settings: GrainSettings;
+}
+
+type SettingsUpdate = GrainSettings | ((prev: GrainSettings) => GrainSettings);
+
+export interface SetSettingsOptions {
+  // Continuous controls (range inputs, curve handles, color pickers) pass true to fold into the
+  // previous step when it changed the same fields in the same pointer drag, or moments ago when
+  // no pointer is held (keyboard, native pickers). Everything else gets a step of its own.
+  coalesce?: boolean;
+}
+
+export interface HistoryState {
+  past: GrainSettings[];
+  present: GrainSettings;
+  future: GrainSettings[];
+  // Fields touched by the last change, when and in which pointer press, to detect a continuing drag
+  lastKeys: string;
+  lastTime: number;
+  lastGesture: number | null;
+}
+
+export type HistoryAction =
+  // `gesture` identifies the pointer press held during the change, null when none is
+  | { type: 'set'; update: SettingsUpdate; time: number; gesture: number | null; coalesce: boolean }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+// Without a pointer held, changes to the same fields closer together than this count as one step
+const COALESCE_MS = 600;
+const MAX_HISTORY = 100;
+
+const changedKeys = (a: GrainSettings, b: GrainSettings) =>
+  (Object.keys({ ...a, ...b }) as (keyof GrainSettings)[]).filter(key => a[key] !== b[key]).sort().join(',');
+
+export const createHistory = (initial: GrainSettings): HistoryState => ({
+  past: [],
+  present: initial,
+  future: [],
+  lastKeys: '',
+  lastTime: 0,
+  lastGesture: null,
+});
+
+export const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'set': {
+      const next = typeof action.update === 'function' ? action.update(state.present) : action.update;
+      const keys = changedKeys(state.present, next);
+      if (!keys) return state;
+
+      const continuing =
+        action.coalesce &&
+        keys === state.lastKeys &&
+        (action.gesture !== null
+          ? action.gesture === state.lastGesture
+          : state.lastGesture === null && action.time - state.lastTime < COALESCE_MS);
+      return {
+        past: continuing ? state.past : [...state.past, state.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastKeys: keys,
+        lastTime: action.time,
+        lastGesture: action.gesture,
+      };
+    }
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastKeys: '',
+        lastTime: 0,
+        lastGesture: null,
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastKeys: '',
+        lastTime: 0,
+        lastGesture: null,
+      };
+    }
+  }
+};
+
+// Settings state with undo/redo and pinned, named snapshots
+export const useSettingsHistory = (initial: GrainSettings) => {
+  const [state, dispatch] = useReducer(historyReducer, initial, createHistory);
+  const [snapshots, setSnapshots] = useState<SettingsSnapshot[]>([]);
+  const nextSnapshotId = useRef(1);
+  // Count of pointer presses so far and whether one is held, so each drag folds into its own step
+  const pointer = useRef({ gesture: 0, held: false });
+
+  useEffect(() => {
+    const press = () => {
+      pointer.current = { gesture: pointer.current.gesture + 1, held: true };
+    };
+    const release = () => {
+      pointer.current = { ...pointer.current, held: false };
+    };
+    window.addEventListener('pointerdown', press, true);
+    window.addEventListener('pointerup', release, true);
+    window.addEventListener('pointercancel', release, true);
+    return () => {
+      window.removeEventListener('pointerdown', press, true);
+      window.removeEventListener('pointerup', release, true);
+      window.removeEventListener('pointercancel', release, true);
+    };
+  }, []);
+
+  const setSettings = useCallback((update: SettingsUpdate, { coalesce = false }: SetSettingsOptions = {}) => {
+    const { gesture, held } = pointer.current;
+    dispatch({ type: 'set', update, time: Date.now(), gesture: held ? gesture : null, coalesce });
+  }, []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  const pinSnapshot = (name: string) => {
+    const id = nextSnapshotId.current++;
+    setSnapshots(prev => [...prev, { id, name: name.trim() || `Snapshot ${id}`, settings: state.present }]);
+  };
+
+  // Jumping to a snapshot is itself an undoable step
+  const restoreSnapshot = (id: number) => {
+    const snapshot = snapshots.find(s => s.id === id);
+    if (snapshot) setSettings(snapshot.settings);
+  };
+
+  const removeSnapshot = (id: number) => {
+    setSnapshots(prev => prev.filter(s => s.id !== id));
+  };
+
+  return {
+    settings: state.present,
+    setSettings,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    snapshots,
+    pinSnapshot,
+    restoreSnapshot,
+    removeSnapshot,
+  };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, GrainSettings, MaskShape } from '../types';
+import { encodePaintedMask } from '../engine/mask';
+import { applyLayerPatch, getBaseStyle } from '../engine/layers';
+import { buildRecipeMessages } from './aiProvider';
+import { validateAIRecipe } from './recipeService';
+
+const painted = encodePaintedMask(4, 2, Uint8Array.of(0, 64, 128, 255, 255, 128, 64, 0))!;
+const mask = { ...DEFAULT_SETTINGS.mask, shape: MaskShape.RADIAL, painted };
+const settings: GrainSettings = {
+  ...DEFAULT_SETTINGS,
+  intensity: 0.3,
+  mask,
+  layers: [{ name: 'Dust', visible: true, settings: { ...getBaseStyle(DEFAULT_SETTINGS), mask } }],
+};
+
+// The settings a refine prompt shows the model
+const promptSettings = (current: GrainSettings) => {
+  const messages = buildRecipeMessages({ type: 'refine', instruction: 'grittier', settings: current, history: [] });
+  return JSON.parse(/Current settings \(JSON\): (.*)/.exec(messages[messages.length - 1].content)![1]);
+};
+
+describe('refine prompt', () => {
+  it('shows the model no masks, layers or document size', () => {
+    const shown = promptSettings(settings);
+    for (const key of ['mask', 'layers', 'baseLayer', 'width', 'height', 'ppi', 'outputMode']) expect(shown).not.toHaveProperty(key);
+    expect(shown.intensity).toBe(0.3);
+  });
+
+  it('keeps painted masks when a variant echoing the complete settings is applied', () => {
+    const reply = { name: 'Grittier', description: 'More grit.', settings: { ...promptSettings(settings), intensity: 0.5 } };
+    const checked = validateAIRecipe(reply)!;
+    expect(checked.issues).toEqual([]);
+    for (const index of [0, 1]) {
+      const next = applyLayerPatch(settings, index, checked.recipe.settings);
+      expect(next.mask).toEqual(mask);
+      expect(next.layers[0].settings.mask).toEqual(mask);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { AIRecipe, GrainSettings, GrainTexture, BlendMode, ColorMode, APP_LIMITS, AI_RECIPE_FIELDS } from '../types';
+
+export type AIProviderId = 'GEMINI' | 'OPENAI' | 'OFFLINE';
+
+// Connection settings for every provider, so switching back and forth keeps what was typed
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  // Keys are kept for the browser session unless the user opts into storing them
+  rememberKeys: boolean;
+  gemini: { model: string; apiKey: string };
+  // Any server speaking the OpenAI chat completions API (OpenAI, Ollama, LM Studio, vLLM...)
+  openai: { endpoint: string; model: string; apiKey: string };
+}
+
+// One earlier refinement in this session, and the variant the user applied (if any)
+export interface RefineTurn {
+  instruction: string;
+  applied: AIRecipe | null;
+}
+
+export type RecipeRequest =
+  // Three fresh recipes from a style prompt
+  | { type: 'generate'; style: string }
+  // Three adjusted variants of the current settings
+  | { type: 'refine'; instruction: string; settings: GrainSettings; history: RefineTurn[] };
+
+// Provider-neutral chat turn; Gemini calls the assistant role "model"
+export interface RecipeMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface RecipeProvider {
+  id: AIProviderId;
+  label: string;
+  // Turns a request into the model's unchecked recipe list (validated by aiService).
+  // Throws when the backend can't be reached, SyntaxError when the reply isn't JSON.
+  fetchRecipes: (request: RecipeRequest, config: AIProviderConfig) => Promise<unknown>;
+}
+
+// Gemini stays the default when the build has a key, otherwise the app works offline out of the box
+export const DEFAULT_AI_CONFIG: AIProviderConfig = {
+  provider: process.env.API_KEY ? 'GEMINI' : 'OFFLINE',
+  rememberKeys: false,
+  gemini: { model: 'gemini-3-flash-preview', apiKey: '' },
+  openai: { endpoint: 'http://localhost:11434/v1', model: 'llama3.2', apiKey: '' },
+};
+
+// Shared brief for the language-model providers
+const buildGeneratePrompt = (style: string) => `Act as a high-end editorial graphic designer and print specialist. Generate 3 unique "grain recipes" based on the artistic prompt: "${style}".
+    The style should be minimalist and sophisticated. Use monochrome, high-contrast grain unless the prompt asks for color.
+
+    Each recipe needs:
+    - name: A sophisticated, artistic name (e.g., "Archival Grit", "Bauhaus Draft").
+    - description: A short, evocative description of the aesthetic.
+    - settings: Specific numeric values for:
+      - intensity (0-1)
+      - scale (1-10)
+      - roughness (0-1)
+      - opacity (0-1)
+      - randomness (0-1) - Controls clumping/clustering of grains.
+      - clumpSize (${APP_LIMITS.MIN_CLUMP_SIZE}-${APP_LIMITS.MAX_CLUMP_SIZE}), clumpOctaves (1-${APP_LIMITS.MAX_CLUMP_OCTAVES}), clumpContrast (0-1) - Size, detail and edge hardness of the clumps.
+      - clumpAngle (0-180) and clumpStretch (1-${APP_LIMITS.MAX_CLUMP_STRETCH}) - Direction and elongation of streaky clumps; 1 is round.
+      - seed (any integer)
+      - bgColor (hex, e.g. #FFFFFF, #000000 or a paper tone)
+      - grainColor (hex) - Particle color in MONO and COLOR modes.
+      - texture (one of: ${Object.values(GrainTexture).join(', ')})
+      - octaves (1-8) - Detail layers, only used by PERLIN.
+      - persistence (0-1) - Amplitude falloff per octave, only used by PERLIN.
+      - fiberAngle (0-180) - Fiber direction in degrees, only used by PAPER_FIBER.
+      - blendMode (one of: ${Object.values(BlendMode).join(', ')})
+      - colorMode (one of: ${Object.values(ColorMode).join(', ')}) - MONO uses grainColor only; COLOR adds film-like color noise; PALETTE draws each particle from the palette.
+      - lumaNoise (0-1) and chromaNoise (0-1) - Brightness and hue variation, only used by COLOR.
+      - palette (1-${APP_LIMITS.MAX_PALETTE_COLORS} entries of { color: hex, weight: number }) - Only used by PALETTE, e.g. two ink colors for a riso duotone.`;
+
+// Only the fields a refinement may send back. Masks and the layer stack stay out, so a reply
+// that echoes the settings can't overwrite them.
+const styleSettings = (settings: GrainSettings) => Object.fromEntries(AI_RECIPE_FIELDS.map(key => [key, settings[key]]));
+
+const buildRefinePrompt = (instruction: string, settings: GrainSettings) => `Act as a high-end editorial graphic designer and print specialist refining an existing grain texture.
+    Current settings (JSON): ${JSON.stringify(styleSettings(settings))}
+
+    Adjustment requested: "${instruction}"
+
+    Return 3 variants of the current settings that carry out the adjustment at different strengths (subtle, clear, bold).
+    Start from the current values and only change the fields the adjustment calls for; keep colors, texture and seed unless asked.
+    Use the same field names and ranges as the current settings (intensity, roughness, opacity, randomness and persistence are 0-1; scale is 1-20; randomness controls clumping).
+
+    Each variant needs:
+    - name: A short name for the variant.
+    - description: One sentence on what changed.
+    - settings: The complete adjusted settings.`;
+
+// The conversation sent to chat models: earlier refinements and what came of them, then the new request
+export const buildRecipeMessages = (request: RecipeRequest): RecipeMessage[] => {
+  if (request.type === 'generate') return [{ role: 'user', content: buildGeneratePrompt(request.style) }];
+
+  const history = request.history.flatMap<RecipeMessage>(turn => [
+    { role: 'user', content: `Adjustment requested: "${turn.instruction}"` },
+    {
+      role: 'assistant',
+      content: turn.applied
+        ? `The user applied "${turn.applied.name}": ${JSON.stringify(turn.applied.settings)}`
+        : 'The user kept the previous settings.',
+    },
+  ]);
+  return [...history, { role: 'user', content: buildRefinePrompt(request.instruction, request.settings) }];
+};
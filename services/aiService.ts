@@ -0,0 +1,96 @@
+import { AIRecipe, GrainSettings } from '../types';
+import { AIProviderConfig, AIProviderId, DEFAULT_AI_CONFIG, RecipeProvider, RecipeRequest, RefineTurn } from './aiProvider';
+import { validateAIRecipe } from './recipeService';
+import { geminiProvider } from './geminiService';
+import { openAiProvider } from './openAiService';
+import { offlineProvider } from './offlineRecipeService';
+
+export const RECIPE_PROVIDERS: RecipeProvider[] = [geminiProvider, openAiProvider, offlineProvider];
+
+const CONFIG_STORAGE_KEY = 'grainy.aiProvider';
+// API keys live apart from the rest of the config: in sessionStorage, or localStorage when remembered
+const KEYS_STORAGE_KEY = 'grainy.aiProviderKeys';
+
+export const getRecipeProvider = (id: AIProviderId) => RECIPE_PROVIDERS.find(p => p.id === id) || offlineProvider;
+
+// Saved config merged over the defaults, so fields added later still get a value
+export const loadProviderConfig = (): AIProviderConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || '{}');
+    const rememberKeys = saved.rememberKeys === true;
+    const keys = JSON.parse((rememberKeys ? localStorage : sessionStorage).getItem(KEYS_STORAGE_KEY) || '{}');
+    // Keys saved inside the config by earlier versions are moved out of localStorage below
+    const legacyKeys = !!(saved.gemini?.apiKey || saved.openai?.apiKey);
+    const config: AIProviderConfig = {
+      provider: RECIPE_PROVIDERS.some(p => p.id === saved.provider) ? saved.provider : DEFAULT_AI_CONFIG.provider,
+      rememberKeys,
+      gemini: { ...DEFAULT_AI_CONFIG.gemini, ...saved.gemini, apiKey: keys.gemini ?? saved.gemini?.apiKey ?? '' },
+      openai: { ...DEFAULT_AI_CONFIG.openai, ...saved.openai, apiKey: keys.openai ?? saved.openai?.apiKey ?? '' },
+    };
+    if (legacyKeys) saveProviderConfig(config);
+    return config;
+  } catch {
+    return DEFAULT_AI_CONFIG;
+  }
+};
+
+export const saveProviderConfig = ({ gemini, openai, ...config }: AIProviderConfig) => {
+  localStorage.setItem(
+    CONFIG_STORAGE_KEY,
+    JSON.stringify({ ...config, gemini: { model: gemini.model }, openai: { endpoint: openai.endpoint, model: openai.model } })
+  );
+  const keys = JSON.stringify({ gemini: gemini.apiKey, openai: openai.apiKey });
+  if (config.rememberKeys) {
+    localStorage.setItem(KEYS_STORAGE_KEY, keys);
+    sessionStorage.removeItem(KEYS_STORAGE_KEY);
+  } else {
+    sessionStorage.setItem(KEYS_STORAGE_KEY, keys);
+    localStorage.removeItem(KEYS_STORAGE_KEY);
+  }
+};
+
+export interface CheckedRecipe {
+  recipe: AIRecipe;
+  // Values that were clamped or dropped on the way in
+  issues: string[];
+}
+
+// Validates a raw reply; null when nothing in it is usable
+const checkRecipes = (raw: unknown): CheckedRecipe[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const checked = raw.map(validateAIRecipe).filter((r): r is CheckedRecipe => r !== null);
+  return checked.length > 0 ? checked : null;
+};
+
+// Sends a request to the configured provider and validates the reply. Models occasionally answer
+// with broken JSON or the wrong shape, so a malformed reply is retried once before giving up;
+// connection errors are thrown straight away.
+const requestRecipes = async (request: RecipeRequest, config: AIProviderConfig): Promise<CheckedRecipe[]> => {
+  const provider = getRecipeProvider(config.provider);
+  // What was wrong with each reply, reported when the retry fails as well
+  const problems: string[] = [];
+  for (let attempt = 1; ; attempt++) {
+    let raw: unknown;
+    try {
+      raw = await provider.fetchRecipes(request, config);
+    } catch (err) {
+      if (!(err instanceof SyntaxError)) throw err;
+      problems.push(`invalid JSON (${err.message})`);
+    }
+    const checked = checkRecipes(raw);
+    if (checked) return checked;
+    if (problems.length < attempt) problems.push('no usable recipes');
+    if (attempt === 2) {
+      throw new Error(`${provider.label} replied with ${problems.join(', then ')}. Try again or rephrase the prompt.`);
+    }
+  }
+};
+
+export const fetchGrainRecipes = (style: string, config: AIProviderConfig) =>
+  requestRecipes({ type: 'generate', style }, config);
+
+// Only the last few turns are sent, enough context for "a bit more" without an ever-growing prompt
+const MAX_REFINE_HISTORY = 6;
+
+export const refineGrainRecipes = (instruction: string, settings: GrainSettings, history: RefineTurn[], config: AIProviderConfig) =>
+  requestRecipes({ type: 'refine', instruction, settings, history: history.slice(-MAX_REFINE_HISTORY) }, config);
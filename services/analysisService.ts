@@ -0,0 +1,51 @@
+import type { GrainBuffer } from '../engine/grainEngine';
+import type { GrainAnalysis } from '../engine/grainAnalysis';
+import type { AnalysisRequest, AnalysisResponse } from '../engine/analysis.worker';
+import { loadImageFile } from './imageService';
+
+export interface ScanMatch {
+  // Center crop of the scan that was analyzed, for the side-by-side view
+  reference: GrainBuffer;
+  analysis: GrainAnalysis;
+}
+
+// Grain statistics settle well before this, and the fit stays a few seconds long
+const ANALYSIS_SIZE = 768;
+
+// Grain is the same everywhere in a scan, so a 1:1 crop keeps its size without resampling
+const cropCenter = (image: GrainBuffer, size: number): GrainBuffer => {
+  const width = Math.min(size, image.width);
+  const height = Math.min(size, image.height);
+  const x0 = Math.floor((image.width - width) / 2);
+  const y0 = Math.floor((image.height - height) / 2);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((y0 + y) * image.width + x0) * 4;
+    data.set(image.data.subarray(start, start + width * 4), y * width * 4);
+  }
+  return { width, height, data };
+};
+
+// Estimates grain settings from a scanned film frame or paper sample, entirely in a local worker
+export const analyzeScan = async (file: File, onProgress?: (progress: number) => void): Promise<ScanMatch> => {
+  const { buffer } = await loadImageFile(file);
+  const reference = cropCenter(buffer, ANALYSIS_SIZE);
+  const worker = new Worker(new URL('../engine/analysis.worker.ts', import.meta.url), { type: 'module' });
+
+  try {
+    const analysis = await new Promise<GrainAnalysis>((resolve, reject) => {
+      worker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+        const msg = e.data;
+        if (msg.type === 'progress') onProgress?.(msg.progress);
+        else if (msg.type === 'done') resolve(msg.analysis);
+        else reject(new Error(msg.message));
+      };
+      worker.onerror = e => reject(new Error(e.message || 'Analysis worker failed'));
+      const request: AnalysisRequest = { scan: reference };
+      worker.postMessage(request);
+    });
+    return { reference, analysis };
+  } finally {
+    worker.terminate();
+  }
+};
@@ -0,0 +1,170 @@
+import { GrainSettings, OutputMode, APP_LIMITS } from '../types';
+import { GrainBuffer } from '../engine/grainEngine';
+import { AnimationTiming, AnimationPlan, planAnimation, getKeyframeSeed, getFrameKeys, blendKeyframes } from '../engine/animation';
+import { mapLayerStyles } from '../engine/layers';
+import { encodePng } from '../codecs/png';
+import { createGifPalette, createGifWriter } from '../codecs/gif';
+import { encodeAnimatedWebp, WebpFrame } from '../codecs/webp';
+import { encodeZip, ZipEntry } from '../codecs/zip';
+import { startRender, RenderJob } from './renderService';
+import { bufferToCanvas, canvasToBlob, isLargeFormat } from './exportService';
+import { BaseImage } from './imageService';
+import { createRecipeFile, RECIPE_FILE_EXTENSION } from './recipeService';
+
+export type AnimationFormat = 'PNG_ZIP' | 'WEBP' | 'GIF';
+
+export interface AnimationOptions extends AnimationTiming {
+  format: AnimationFormat;
+}
+
+export const ANIMATION_FORMATS: { format: AnimationFormat; label: string; extension: string; mime: string }[] = [
+  { format: 'PNG_ZIP', label: 'PNG ZIP', extension: 'zip', mime: 'application/zip' },
+  { format: 'WEBP', label: 'WebP', extension: 'webp', mime: 'image/webp' },
+  { format: 'GIF', label: 'GIF', extension: 'gif', mime: 'image/gif' },
+];
+
+export const FRAME_RATES = [12, 24, 25, 30];
+export const MAX_ANIMATION_SECONDS = 10;
+
+export const DEFAULT_ANIMATION_OPTIONS: AnimationOptions = {
+  fps: 24,
+  duration: 2,
+  coherence: 0.5,
+  loop: true,
+  format: 'WEBP',
+};
+
+export const getAnimationFormatInfo = (format: AnimationFormat) =>
+  ANIMATION_FORMATS.find(f => f.format === format) || ANIMATION_FORMATS[0];
+
+export interface FrameSource {
+  plan: AnimationPlan;
+  // Renders whatever the frame needs and mixes it; pass `out` to reuse a buffer
+  renderFrame: (frame: number, out?: GrainBuffer) => Promise<GrainBuffer>;
+  cancel: () => void;
+}
+
+// Frames for the settings as they are, with only the seed moving. Keyframes are rendered on
+// demand; `keepKeyframes` holds on to all of them (for a looping preview), otherwise only the
+// ones still ahead are kept, so a long export holds three or four full-size images at most.
+export const createFrameSource = (
+  settings: GrainSettings,
+  timing: AnimationTiming,
+  { base = null, keepKeyframes = false }: { base?: BaseImage | null; keepKeyframes?: boolean } = {}
+): FrameSource => {
+  const plan = planAnimation(timing);
+  // 1-bit output can't be mixed without grey, so dithered and halftone modes hold each seed instead
+  const dithered = settings.outputMode !== OutputMode.CONTINUOUS;
+  const rendered = new Map<number | 'still', Promise<GrainBuffer>>();
+  const jobs = new Set<RenderJob>();
+  let cancelled = false;
+
+  const render = (key: number | 'still') => {
+    const cached = rendered.get(key);
+    if (cached) return cached;
+    // Every layer of the stack moves with its own seed
+    const job = startRender(
+      key === 'still'
+        ? mapLayerStyles(settings, () => ({ intensity: 0 }))
+        : mapLayerStyles(settings, style => ({ seed: getKeyframeSeed(style.seed, key) })),
+      { base }
+    );
+    jobs.add(job);
+    const promise = job.promise.then(buffer => {
+      jobs.delete(job);
+      if (!buffer) throw new Error(cancelled ? 'Animation was cancelled' : 'Frame render failed');
+      return buffer;
+    });
+    rendered.set(key, promise);
+    return promise;
+  };
+
+  return {
+    plan,
+    renderFrame: async (frame, out) => {
+      const { from, to, weight } = getFrameKeys(plan, timing.loop, frame);
+      if (!keepKeyframes) {
+        for (const key of rendered.keys()) {
+          if (key !== 'still' && key !== 0 && key < from) rendered.delete(key);
+        }
+      }
+      // One render at a time; these are full-size images
+      const mix = dithered ? Math.round(weight) : weight;
+      const still = await render('still');
+      const a = await render(from);
+      const b = mix > 0 ? await render(to) : a;
+      return blendKeyframes(still, a, b, mix, out);
+    },
+    cancel: () => {
+      cancelled = true;
+      jobs.forEach(job => job.cancel());
+    },
+  };
+};
+
+// Frame durations in 1/`unit` seconds, taken from rounded start times so they add up to the clip length
+const frameDurations = (frames: number, fps: number, unit: number) =>
+  Array.from({ length: frames }, (_, i) => Math.round(((i + 1) * unit) / fps) - Math.round((i * unit) / fps));
+
+// Renders the clip at the document size and encodes it in the chosen format.
+// PNG sequences come with the recipe, so the still settings travel with the frames.
+export const exportAnimation = async (
+  settings: GrainSettings,
+  base: BaseImage | null,
+  options: AnimationOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  if (isLargeFormat(settings)) {
+    throw new Error(`Animations are limited to ${APP_LIMITS.MAX_DIMENSION} px. Reduce the size or export a still.`);
+  }
+  const info = getAnimationFormatInfo(options.format);
+  const source = createFrameSource(settings, options, { base });
+  const { frames } = source.plan;
+  const { width, height } = settings;
+  const out: GrainBuffer = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  const digits = Math.max(4, String(frames).length);
+
+  try {
+    switch (options.format) {
+      case 'PNG_ZIP': {
+        const entries: ZipEntry[] = [];
+        for (let i = 0; i < frames; i++) {
+          const frame = await source.renderFrame(i, out);
+          entries.push({ name: `frame_${String(i + 1).padStart(digits, '0')}.png`, data: await encodePng(frame, { alpha: false, ppi: settings.ppi }) });
+          onProgress?.((i + 1) / frames);
+        }
+        const recipe = createRecipeFile({
+          name: `${settings.texture} ${settings.seed} loop`,
+          description: `${frames} frames at ${options.fps} fps, coherence ${options.coherence}${options.loop ? ', seamless loop' : ''}`,
+          settings,
+        });
+        entries.push({ name: `recipe${RECIPE_FILE_EXTENSION}`, data: new Uint8Array(await recipe.arrayBuffer()) });
+        return new Blob(encodeZip(entries), { type: info.mime });
+      }
+      case 'WEBP': {
+        const durations = frameDurations(frames, options.fps, 1000);
+        const webpFrames: WebpFrame[] = [];
+        for (let i = 0; i < frames; i++) {
+          const blob = await canvasToBlob(bufferToCanvas(await source.renderFrame(i, out)), 'image/webp', 0.9);
+          if (blob.type !== 'image/webp') throw new Error('This browser can\'t encode WebP. Use PNG ZIP or GIF instead.');
+          webpFrames.push({ webp: new Uint8Array(await blob.arrayBuffer()), duration: durations[i] });
+          onProgress?.((i + 1) / frames);
+        }
+        return new Blob([encodeAnimatedWebp(width, height, webpFrames)], { type: info.mime });
+      }
+      case 'GIF': {
+        // GIF delays are in hundredths of a second, so 24 fps alternates 4 and 5
+        const delays = frameDurations(frames, options.fps, 100);
+        const first = await source.renderFrame(0);
+        const writer = createGifWriter(width, height, createGifPalette([first]));
+        for (let i = 0; i < frames; i++) {
+          writer.addFrame(i === 0 ? first : await source.renderFrame(i, out), delays[i]);
+          onProgress?.((i + 1) / frames);
+        }
+        return new Blob(writer.close(), { type: info.mime });
+      }
+    }
+  } finally {
+    source.cancel();
+  }
+};
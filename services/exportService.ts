@@ -0,0 +1,137 @@
+import { GrainSettings, APP_LIMITS } from '../types';
+import { GrainBuffer } from '../engine/grainEngine';
+import { encodePng, setPngMetadata } from '../codecs/png';
+import { setJpegDensity } from '../codecs/jpeg';
+import { encodeTiff, TiffCompression } from '../codecs/tiff';
+import { startRender, startStreamedExport } from './renderService';
+import { BaseImage } from './imageService';
+import { createRecipeText } from './recipeService';
+
+export type ExportFormat = 'PNG' | 'JPEG' | 'WEBP' | 'TIFF';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0 to 1, JPEG and WebP only
+  quality: number;
+  tiffCompression: TiffCompression;
+  // Grain particles only on transparency (not available for JPEG)
+  transparent: boolean;
+}
+
+// `streams`: can be encoded strip by strip, so it works above the single-canvas size limit
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mime: string; alpha: boolean; embedsPpi: boolean; streams: boolean }[] = [
+  { format: 'PNG', label: 'PNG', extension: 'png', mime: 'image/png', alpha: true, embedsPpi: true, streams: true },
+  { format: 'JPEG', label: 'JPEG', extension: 'jpg', mime: 'image/jpeg', alpha: false, embedsPpi: true, streams: false },
+  { format: 'WEBP', label: 'WebP', extension: 'webp', mime: 'image/webp', alpha: true, embedsPpi: false, streams: false },
+  { format: 'TIFF', label: 'TIFF', extension: 'tif', mime: 'image/tiff', alpha: true, embedsPpi: true, streams: true },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'PNG',
+  quality: 0.92,
+  tiffCompression: 'LZW',
+  transparent: false,
+};
+
+export const getFormatInfo = (format: ExportFormat) => EXPORT_FORMATS.find(f => f.format === format) || EXPORT_FORMATS[0];
+
+// Outputs larger than one canvas are rendered in strips at full resolution (the live canvas is only a preview)
+export const isLargeFormat = (settings: GrainSettings) =>
+  settings.width > APP_LIMITS.MAX_DIMENSION || settings.height > APP_LIMITS.MAX_DIMENSION;
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the canvas'))), type, quality);
+  });
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Renders the texture off-screen; transparent keeps only the grain particles
+const renderPixels = async (
+  settings: GrainSettings,
+  base: BaseImage | null,
+  transparent: boolean,
+  onProgress?: (progress: number) => void
+): Promise<GrainBuffer> => {
+  const buffer = await startRender(settings, { base, transparent, onProgress }).promise;
+  if (!buffer) throw new Error('Export was cancelled');
+  return buffer;
+};
+
+export const bufferToCanvas = (buffer: GrainBuffer) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = buffer.width;
+  canvas.height = buffer.height;
+  canvas.getContext('2d')?.putImageData(new ImageData(buffer.data, buffer.width, buffer.height), 0, 0);
+  return canvas;
+};
+
+const canvasPixels = (canvas: HTMLCanvasElement): GrainBuffer => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not read the canvas');
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { width: canvas.width, height: canvas.height, data };
+};
+
+// Encodes the finished texture in the requested format with the print resolution embedded;
+// PNGs also carry the full recipe.
+// `canvas` is the live preview, used for filled exports; transparent ones are re-rendered
+// and encoded straight from the pixel buffer so low-alpha grain is not re-quantized.
+// Without a canvas (batch exports) the filled image is rendered off-screen as well.
+// Large formats skip the canvas and stream from the worker.
+export const exportImage = async (
+  settings: GrainSettings,
+  canvas: HTMLCanvasElement | null,
+  base: BaseImage | null,
+  options: ExportOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const info = getFormatInfo(options.format);
+  const transparent = options.transparent && info.alpha;
+
+  if (isLargeFormat(settings)) {
+    if (!info.streams) {
+      throw new Error(`${info.label} export is limited to ${APP_LIMITS.MAX_DIMENSION} px. Use PNG or TIFF for larger sizes.`);
+    }
+    const encode = { format: options.format as 'PNG' | 'TIFF', tiffCompression: options.tiffCompression, text: createRecipeText(settings) };
+    const blob = await startStreamedExport(settings, encode, { base, transparent, onProgress }).promise;
+    if (!blob) throw new Error('Export was cancelled');
+    return blob;
+  }
+
+  const pixels = transparent || !canvas ? await renderPixels(settings, base, transparent, onProgress) : null;
+
+  switch (options.format) {
+    case 'PNG': {
+      const metadata = { ppi: settings.ppi, text: createRecipeText(settings) };
+      const png = pixels
+        ? await encodePng(pixels, { alpha: transparent, ...metadata })
+        : setPngMetadata(await blobBytes(await canvasToBlob(canvas!, 'image/png')), metadata);
+      return new Blob([png], { type: info.mime });
+    }
+    case 'JPEG': {
+      const jpeg = await blobBytes(await canvasToBlob(pixels ? bufferToCanvas(pixels) : canvas!, 'image/jpeg', options.quality));
+      return new Blob([setJpegDensity(jpeg, settings.ppi)], { type: info.mime });
+    }
+    case 'WEBP':
+      // WebP has no resolution field, so the PPI can't travel with it
+      return canvasToBlob(pixels ? bufferToCanvas(pixels) : canvas!, 'image/webp', options.quality);
+    case 'TIFF': {
+      const tiff = encodeTiff(pixels || canvasPixels(canvas!), {
+        compression: options.tiffCompression,
+        alpha: transparent,
+        ppi: settings.ppi,
+      });
+      return new Blob([tiff], { type: info.mime });
+    }
+  }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
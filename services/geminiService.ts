@@ -1,65 +1,82 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { AIRecipe, GrainTexture } from "../types";
+import { GrainTexture, BlendMode, ColorMode } from "../types";
+import { RecipeProvider, buildRecipeMessages } from "./aiProvider";
+
+// One client per key, so a key typed into the settings panel takes effect immediately
+let client: { apiKey: string; ai: GoogleGenAI } | null = null;
+
+const getClient = (apiKey: string) => {
+  if (client?.apiKey !== apiKey) client = { apiKey, ai: new GoogleGenAI({ apiKey }) };
+  return client.ai;
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const geminiProvider: RecipeProvider = {
+  id: "GEMINI",
+  label: "Gemini",
+  fetchRecipes: async (request, config) => {
+    const apiKey = config.gemini.apiKey || process.env.API_KEY;
+    if (!apiKey) throw new Error("No Gemini API key. Add one in the AI settings or set GEMINI_API_KEY.");
 
-export async function fetchGrainRecipes(style: string): Promise<AIRecipe[]> {
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Act as a high-end editorial graphic designer and print specialist. Generate 3 unique "grain recipes" based on the artistic prompt: "${style}". 
-    The style should be minimalist, sophisticated, and focused on monochrome textures (using black, white, and high-contrast logic).
-    
-    Each recipe needs:
-    - name: A sophisticated, artistic name (e.g., "Archival Grit", "Bauhaus Draft").
-    - description: A short, evocative description of the aesthetic.
-    - settings: Specific numeric values for:
-      - intensity (0-1)
-      - scale (1-10)
-      - roughness (0-1)
-      - opacity (0-1)
-      - randomness (0-1) - Controls clumping/clustering of grains.
-      - seed (any integer)
-      - bgColor (hex, strictly #FFFFFF or #000000)
-      - grainColor (hex, strictly #FFFFFF or #000000)
-      - texture (one of: UNIFORM, GAUSSIAN, SPECKLE, FILM)
-      - monochrome: true`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-            settings: {
-              type: Type.OBJECT,
-              properties: {
-                intensity: { type: Type.NUMBER },
-                scale: { type: Type.NUMBER },
-                roughness: { type: Type.NUMBER },
-                opacity: { type: Type.NUMBER },
-                randomness: { type: Type.NUMBER },
-                seed: { type: Type.NUMBER },
-                bgColor: { type: Type.STRING },
-                grainColor: { type: Type.STRING },
-                texture: { type: Type.STRING },
-                monochrome: { type: Type.BOOLEAN }
-              },
-              required: ["intensity", "scale", "roughness", "opacity", "randomness", "seed", "bgColor", "grainColor", "texture", "monochrome"]
-            }
-          },
-          required: ["name", "description", "settings"]
+    const response = await getClient(apiKey).models.generateContent({
+      model: config.gemini.model,
+      contents: buildRecipeMessages(request).map(({ role, content }) => ({
+        role: role === "assistant" ? "model" : "user",
+        parts: [{ text: content }]
+      })),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              description: { type: Type.STRING },
+              settings: {
+                type: Type.OBJECT,
+                properties: {
+                  intensity: { type: Type.NUMBER },
+                  scale: { type: Type.NUMBER },
+                  roughness: { type: Type.NUMBER },
+                  opacity: { type: Type.NUMBER },
+                  randomness: { type: Type.NUMBER },
+                  clumpSize: { type: Type.NUMBER },
+                  clumpOctaves: { type: Type.NUMBER },
+                  clumpContrast: { type: Type.NUMBER },
+                  clumpAngle: { type: Type.NUMBER },
+                  clumpStretch: { type: Type.NUMBER },
+                  seed: { type: Type.NUMBER },
+                  bgColor: { type: Type.STRING },
+                  grainColor: { type: Type.STRING },
+                  texture: { type: Type.STRING, enum: Object.values(GrainTexture) },
+                  octaves: { type: Type.NUMBER },
+                  persistence: { type: Type.NUMBER },
+                  fiberAngle: { type: Type.NUMBER },
+                  blendMode: { type: Type.STRING, enum: Object.values(BlendMode) },
+                  colorMode: { type: Type.STRING, enum: Object.values(ColorMode) },
+                  lumaNoise: { type: Type.NUMBER },
+                  chromaNoise: { type: Type.NUMBER },
+                  palette: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        color: { type: Type.STRING },
+                        weight: { type: Type.NUMBER }
+                      },
+                      required: ["color", "weight"]
+                    }
+                  }
+                },
+                required: ["intensity", "scale", "roughness", "opacity", "randomness", "seed", "bgColor", "grainColor", "texture", "colorMode"]
+              }
+            },
+            required: ["name", "description", "settings"]
+          }
         }
       }
-    }
-  });
+    });
 
-  try {
-    return JSON.parse(response.text);
-  } catch (e) {
-    console.error("Failed to parse AI response", e);
-    return [];
-  }
-}
+    return JSON.parse(response.text ?? "");
+  },
+};
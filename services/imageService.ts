@@ -0,0 +1,41 @@
+import { APP_LIMITS } from '../types';
+import { GrainBuffer } from '../engine/grainEngine';
+
+// A user image used as the base layer under the grain
+export interface BaseImage {
+  // Changes whenever a new image is loaded, so workers can cache the pixels
+  key: number;
+  name: string;
+  buffer: GrainBuffer;
+}
+
+export const IMPORT_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+let nextImageKey = 1;
+
+// Decodes a PNG/JPEG/WebP file, scaled down to fit APP_LIMITS.MAX_DIMENSION
+export const loadImageFile = async (file: File): Promise<BaseImage> => {
+  if (!IMPORT_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(`Unsupported image type "${file.type || file.name}". Use PNG, JPEG or WebP.`);
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const ratio = Math.min(1, APP_LIMITS.MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * ratio));
+  const height = Math.max(1, Math.round(bitmap.height * ratio));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Could not create a canvas to decode the image');
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  return { key: nextImageKey++, name: file.name, buffer: { width, height, data } };
+};
@@ -0,0 +1,176 @@
+import { GrainSettings } from '../types';
+import { ENGINE_VERSION } from '../engine/grainEngine';
+import { startRender } from './renderService';
+import { bufferToCanvas } from './exportService';
+import { validateSettings } from './recipeService';
+
+// A saved house style, kept in IndexedDB on this device
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  favorite: boolean;
+  settings: GrainSettings;
+  // Small JPEG data URL of a 1:1 crop of the grain
+  thumbnail: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LibraryImportResult {
+  added: number;
+  updated: number;
+  // Entries whose local copy was edited more recently
+  skipped: number;
+  issues: string[];
+}
+
+const DB_NAME = 'grainy';
+const DB_VERSION = 1;
+const STORE = 'recipes';
+
+const LIBRARY_FORMAT = 'grainy-library';
+const LIBRARY_VERSION = 1;
+export const LIBRARY_FILE_EXTENSION = '.grainy-library.json';
+
+const THUMBNAIL_SIZE = 96;
+
+// --- IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('Could not open the recipe library'));
+    };
+  });
+  return dbPromise;
+};
+
+// Runs one request against the store and resolves when its transaction has committed
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? new Error('Recipe library request failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Recipe library request was aborted'));
+  });
+};
+
+// Newest first
+export const listLibrary = async (): Promise<LibraryEntry[]> => {
+  const entries = await withStore<LibraryEntry[]>('readonly', store => store.getAll());
+  // Entries saved before a settings change get the new fields and renamed ones migrated
+  entries.forEach(entry => { entry.settings = validateSettings(entry.settings).settings; });
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const putLibraryEntry = (entry: LibraryEntry) => withStore('readwrite', store => store.put(entry));
+
+export const deleteLibraryEntry = (id: string) => withStore('readwrite', store => store.delete(id));
+
+// --- Entries ---
+
+// Grain-only crop at the saved scale, so the thumbnail shows the real particle size
+const createThumbnail = async (settings: GrainSettings) => {
+  const buffer = await startRender({ ...settings, width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }).promise;
+  return buffer ? bufferToCanvas(buffer).toDataURL('image/jpeg', 0.85) : '';
+};
+
+export const normalizeTags = (tags: string[]) =>
+  [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const createLibraryEntry = async (
+  { name, description = '', tags = [], settings }: { name: string; description?: string; tags?: string[]; settings: GrainSettings }
+): Promise<LibraryEntry> => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || `${settings.texture} ${settings.seed}`,
+    description,
+    tags: normalizeTags(tags),
+    favorite: false,
+    settings,
+    thumbnail: await createThumbnail(settings),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Case-insensitive match on name, description and tags; every word has to match
+export const matchesSearch = (entry: LibraryEntry, query: string) => {
+  const haystack = [entry.name, entry.description, ...entry.tags].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+// --- Library files ---
+
+export const createLibraryFile = (entries: LibraryEntry[]) =>
+  new Blob(
+    [JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION, engineVersion: ENGINE_VERSION, entries }, null, 2)],
+    { type: 'application/json' }
+  );
+
+// Merges a library file into the local library. Entries are matched by id and the most
+// recently edited copy wins, so teammates can pass the same file back and forth.
+export const importLibraryFile = async (file: Blob): Promise<LibraryImportResult> => {
+  let parsed: { format?: unknown; version?: unknown; entries?: unknown };
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This library file is not valid JSON.');
+  }
+  if (parsed?.format !== LIBRARY_FORMAT || !Array.isArray(parsed.entries)) {
+    throw new Error('This file is not a Grainy library.');
+  }
+  if (Number(parsed.version) > LIBRARY_VERSION) {
+    throw new Error('This library was exported by a newer version of Grainy.');
+  }
+
+  const existing = new Map((await listLibrary()).map(entry => [entry.id, entry]));
+  const result: LibraryImportResult = { added: 0, updated: 0, skipped: 0, issues: [] };
+
+  for (const raw of parsed.entries as Record<string, unknown>[]) {
+    if (!raw || typeof raw !== 'object' || typeof raw.name !== 'string' || !raw.name.trim()) {
+      result.issues.push('Skipped an entry without a name.');
+      continue;
+    }
+    const name = raw.name.trim();
+    const id = typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID();
+    const updatedAt = Number(raw.updatedAt) || Date.now();
+    const local = existing.get(id);
+    if (local && local.updatedAt >= updatedAt) {
+      result.skipped++;
+      continue;
+    }
+    const { settings, issues } = validateSettings(raw.settings);
+    result.issues.push(...issues.map(issue => `${name}: ${issue}`));
+
+    await putLibraryEntry({
+      id,
+      name,
+      description: typeof raw.description === 'string' ? raw.description : '',
+      tags: Array.isArray(raw.tags) ? normalizeTags(raw.tags.filter((tag): tag is string => typeof tag === 'string')) : [],
+      favorite: raw.favorite === true,
+      settings,
+      thumbnail: typeof raw.thumbnail === 'string' && raw.thumbnail.startsWith('data:image/')
+        ? raw.thumbnail
+        : await createThumbnail(settings),
+      createdAt: Number(raw.createdAt) || updatedAt,
+      updatedAt,
+    });
+    if (local) result.updated++;
+    else result.added++;
+  }
+  return result;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ColorMode, DEFAULT_SETTINGS, GrainTexture } from '../types';
+import { deriveOfflineRecipes, refineOfflineRecipes } from './offlineRecipeService';
+import { validateAIRecipe } from './recipeService';
+
+describe('deriveOfflineRecipes', () => {
+  it('gives the same three recipes for the same words', () => {
+    const recipes = deriveOfflineRecipes('Gritty analog  film');
+    expect(recipes).toHaveLength(3);
+    expect(deriveOfflineRecipes('gritty analog film')).toEqual(recipes);
+    expect(deriveOfflineRecipes('quiet swiss poster')).not.toEqual(recipes);
+  });
+
+  it('follows keyword cues in the first recipe', () => {
+    const [first] = deriveOfflineRecipes('kodachrome noir');
+    expect(first.settings).toMatchObject({ colorMode: ColorMode.COLOR, bgColor: '#000000', grainColor: '#FFFFFF' });
+    expect(deriveOfflineRecipes('paper')[0].settings.texture).toBe(GrainTexture.PAPER_FIBER);
+  });
+
+  it('only produces settings that pass recipe validation unchanged', () => {
+    for (const style of ['', 'riso zine', 'soft cloud marble', 'brutal digital glitch']) {
+      for (const recipe of deriveOfflineRecipes(style)) {
+        expect(validateAIRecipe(recipe)).toEqual({ recipe, issues: [] });
+      }
+    }
+  });
+});
+
+describe('refineOfflineRecipes', () => {
+  const settings = { ...DEFAULT_SETTINGS, intensity: 0.5, randomness: 0.5 };
+
+  it('reads directions and negations at three strengths', () => {
+    const recipes = refineOfflineRecipes('grittier, less clumping', settings);
+    expect(recipes.map(r => r.settings)).toEqual([
+      { intensity: 0.55, randomness: 0.4 },
+      { intensity: 0.6, randomness: 0.3 },
+      { intensity: 0.7, randomness: 0.1 },
+    ]);
+  });
+
+  it('stops at the allowed range', () => {
+    const [, , bold] = refineOfflineRecipes('stronger', { ...settings, intensity: 0.95 });
+    expect(bold.settings).toEqual({ intensity: 1 });
+    expect(refineOfflineRecipes('stronger', { ...settings, intensity: 1 })[0].settings).toEqual({});
+  });
+
+  it('reseeds when nothing is recognised', () => {
+    const recipes = refineOfflineRecipes('make it sing', settings);
+    expect(recipes.every(r => Object.keys(r.settings).join() === 'seed')).toBe(true);
+    expect(refineOfflineRecipes('make it sing', settings)).toEqual(recipes);
+  });
+});
@@ -0,0 +1,171 @@
+import { AIRecipe, GrainSettings, GrainTexture, BlendMode, ColorMode, APP_LIMITS } from '../types';
+import { createRandom, hashInt } from '../engine/random';
+import { RecipeProvider, RecipeRequest } from './aiProvider';
+
+// Words in the prompt that steer the recipe; later matches override earlier ones
+const CUES: { words: string[]; cue: string; settings: Partial<GrainSettings> }[] = [
+  { words: ['film', 'analog', 'kodak', 'cinema', 'photo'], cue: 'silver halide', settings: { texture: GrainTexture.FILM, scale: 2, intensity: 0.2 } },
+  { words: ['paper', 'fiber', 'fibre', 'archival', 'letterpress', 'print'], cue: 'paper stock', settings: { texture: GrainTexture.PAPER_FIBER, intensity: 0.12, blendMode: BlendMode.MULTIPLY } },
+  { words: ['cloud', 'fog', 'organic', 'stone', 'marble', 'terrain'], cue: 'fractal tone', settings: { texture: GrainTexture.PERLIN, scale: 6, octaves: 5, persistence: 0.55 } },
+  { words: ['digital', 'glitch', 'pixel', 'screen', 'tech'], cue: 'digital noise', settings: { texture: GrainTexture.UNIFORM, roughness: 0 } },
+  { words: ['dust', 'speck', 'xerox', 'photocopy', 'zine', 'punk'], cue: 'toner speckle', settings: { texture: GrainTexture.SPECKLE, intensity: 0.35, randomness: 0.7 } },
+  { words: ['smooth', 'clean', 'even', 'swiss', 'minimal'], cue: 'even dispersion', settings: { texture: GrainTexture.BLUE_NOISE, intensity: 0.1, randomness: 0.1 } },
+  { words: ['soft', 'dream', 'haze', 'mist', 'gentle'], cue: 'soft focus', settings: { roughness: 0.6, intensity: 0.1 } },
+  { words: ['grit', 'gritty', 'grunge', 'raw', 'brutal', 'brutalist', 'harsh', 'rough'], cue: 'heavy grit', settings: { intensity: 0.45, scale: 3, randomness: 0.6 } },
+  { words: ['noir', 'dark', 'night', 'black', 'shadow', 'moody'], cue: 'inverted ground', settings: { bgColor: '#000000', grainColor: '#FFFFFF', blendMode: BlendMode.SCREEN } },
+  { words: ['light', 'white', 'bright', 'airy', 'gallery'], cue: 'white ground', settings: { bgColor: '#FFFFFF', grainColor: '#000000' } },
+  { words: ['color', 'colour', 'kodachrome', 'ektachrome', 'chrome', 'vintage'], cue: 'dye clouds', settings: { colorMode: ColorMode.COLOR, lumaNoise: 0.8, chromaNoise: 0.5 } },
+  { words: ['riso', 'risograph', 'duotone', 'screenprint'], cue: 'two-ink riso', settings: { colorMode: ColorMode.PALETTE, palette: [{ color: '#FF48B0', weight: 1 }, { color: '#0078BF', weight: 1 }], blendMode: BlendMode.MULTIPLY } },
+];
+
+const TEXTURES = Object.values(GrainTexture);
+const ADJECTIVES = ['Archival', 'Quiet', 'Bauhaus', 'Nocturne', 'Gallery', 'Press', 'Folio', 'Static', 'Linen', 'Atelier', 'Offset', 'Salon'];
+const NOUNS = ['Grit', 'Draft', 'Proof', 'Veil', 'Plate', 'Ground', 'Study', 'Edition', 'Tone', 'Field', 'Sheet', 'Haze'];
+
+// FNV-1a over the normalized prompt, so the same words always give the same recipes
+const hashText = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+const round = (value: number, digits = 2) => parseFloat(value.toFixed(digits));
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Derives three recipes from the prompt text alone: keyword cues set the character,
+// a hash of the prompt picks names, seeds and small variations. No network involved.
+export const deriveOfflineRecipes = (style: string): AIRecipe[] => {
+  const normalized = style.toLowerCase().replace(/\s+/g, ' ').trim();
+  const words = normalized.split(/[^a-z0-9]+/).filter(Boolean);
+  const matched = CUES.filter(({ words: cueWords }) => cueWords.some(word => words.includes(word)));
+  const base = Object.assign({}, ...matched.map(m => m.settings)) as Partial<GrainSettings>;
+  const hash = hashText(normalized);
+
+  return [0, 1, 2].map(variant => {
+    const random = createRandom(hashInt(hash + variant));
+    // The first recipe follows the cues closely, the others drift further away
+    const spread = 0.15 * variant + 0.05;
+    const jitter = (value: number) => clamp01(value + (random() * 2 - 1) * spread);
+    const texture = variant === 2 || !base.texture ? TEXTURES[Math.floor(random() * TEXTURES.length)] : base.texture;
+    const dark = base.bgColor === '#000000';
+
+    const settings: Partial<GrainSettings> = {
+      intensity: round(jitter(base.intensity ?? 0.18)),
+      scale: round(Math.min(10, Math.max(1, (base.scale ?? 1.5) * (0.7 + random() * 0.8))), 1),
+      roughness: round(jitter(base.roughness ?? 0.15)),
+      opacity: round(0.75 + random() * 0.25),
+      randomness: round(jitter(base.randomness ?? 0.4)),
+      seed: Math.floor(random() * 100000),
+      bgColor: dark ? '#000000' : '#FFFFFF',
+      grainColor: dark ? '#FFFFFF' : '#000000',
+      texture,
+      octaves: base.octaves ?? 3 + Math.floor(random() * 4),
+      persistence: round(jitter(base.persistence ?? 0.5)),
+      fiberAngle: Math.round(random() * 180),
+      blendMode: base.blendMode ?? (dark ? BlendMode.SCREEN : BlendMode.NORMAL),
+      colorMode: base.colorMode ?? ColorMode.MONO,
+      ...(base.colorMode === ColorMode.COLOR ? { lumaNoise: round(jitter(base.lumaNoise ?? 0.8)), chromaNoise: round(jitter(base.chromaNoise ?? 0.5)) } : {}),
+      ...(base.palette ? { palette: base.palette } : {}),
+    };
+
+    const cues = matched.map(m => m.cue);
+    const character = cues.length ? cues.join(', ') : 'balanced neutral grain';
+    return {
+      name: `${ADJECTIVES[Math.floor(random() * ADJECTIVES.length)]} ${NOUNS[Math.floor(random() * NOUNS.length)]}`,
+      description: `${texture.replace('_', ' ').toLowerCase()} texture with ${character}${variant ? ', loosely interpreted' : ''}.`,
+      settings,
+    };
+  });
+};
+
+// --- Refinement ---
+
+type AdjustableField = 'intensity' | 'scale' | 'roughness' | 'opacity' | 'randomness' | 'persistence' | 'octaves';
+
+// Words that name an adjustment. `sign` is the direction the word implies on its own
+// ("finer" shrinks scale); nouns like "clumping" use +1 and rely on "more" / "less".
+const ADJUSTMENTS: { words: string[]; field: AdjustableField; step: number; sign: 1 | -1 }[] = [
+  { words: ['grit', 'gritty', 'grittier', 'grain', 'grainier', 'grainy', 'stronger', 'intense', 'intensity', 'heavier', 'harsher'], field: 'intensity', step: 0.1, sign: 1 },
+  { words: ['subtle', 'subtler', 'lighter', 'weaker', 'gentler', 'cleaner'], field: 'intensity', step: 0.1, sign: -1 },
+  { words: ['clump', 'clumps', 'clumping', 'clumpy', 'clumpier', 'clusters', 'clustering', 'patchy', 'patchier', 'random', 'randomness', 'organic'], field: 'randomness', step: 0.2, sign: 1 },
+  { words: ['even', 'evener', 'uniform', 'regular'], field: 'randomness', step: 0.2, sign: -1 },
+  { words: ['bigger', 'larger', 'coarser', 'chunkier', 'scale', 'size'], field: 'scale', step: 1.5, sign: 1 },
+  { words: ['smaller', 'finer', 'tighter'], field: 'scale', step: 1.5, sign: -1 },
+  { words: ['softer', 'blurrier', 'blur', 'blurry', 'smoother', 'roughness', 'bleed'], field: 'roughness', step: 0.15, sign: 1 },
+  { words: ['sharper', 'crisper', 'crisp', 'sharp'], field: 'roughness', step: 0.15, sign: -1 },
+  { words: ['opaque', 'opacity', 'denser', 'dense'], field: 'opacity', step: 0.15, sign: 1 },
+  { words: ['fainter', 'transparent', 'sparser', 'sparse'], field: 'opacity', step: 0.15, sign: -1 },
+  { words: ['detail', 'detailed', 'octaves', 'layers'], field: 'octaves', step: 1, sign: 1 },
+  { words: ['persistence'], field: 'persistence', step: 0.1, sign: 1 },
+];
+
+const NEGATORS = ['less', 'fewer', 'reduce', 'lower', 'decrease', 'not', 'no', 'without', 'minus'];
+const RANGES: Record<AdjustableField, { min: number; max: number; integer?: boolean }> = {
+  intensity: { min: 0, max: 1 },
+  scale: { min: 1, max: APP_LIMITS.MAX_SCALE },
+  roughness: { min: 0, max: APP_LIMITS.MAX_ROUGHNESS },
+  opacity: { min: 0, max: 1 },
+  randomness: { min: 0, max: 1 },
+  persistence: { min: 0, max: 1 },
+  octaves: { min: 1, max: APP_LIMITS.MAX_OCTAVES, integer: true },
+};
+const STRENGTHS = [
+  { label: 'Subtle', factor: 0.5 },
+  { label: 'Clear', factor: 1 },
+  { label: 'Bold', factor: 2 },
+];
+
+// Reads the instruction into per-field directions, e.g. "grittier, less clumping" → intensity +1, randomness -1
+const parseAdjustments = (instruction: string) => {
+  const words = instruction.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const directions = new Map<AdjustableField, number>();
+  words.forEach((word, i) => {
+    const rule = ADJUSTMENTS.find(a => a.words.includes(word));
+    if (!rule) return;
+    // "less clumping", "not so gritty": a negator up to two words back flips the direction
+    const negated = words.slice(Math.max(0, i - 2), i).some(w => NEGATORS.includes(w));
+    directions.set(rule.field, (directions.get(rule.field) ?? 0) + rule.sign * (negated ? -1 : 1));
+  });
+  return [...directions].filter(([, direction]) => direction !== 0);
+};
+
+// Applies the parsed adjustments to the current settings at three strengths
+export const refineOfflineRecipes = (instruction: string, settings: GrainSettings): AIRecipe[] => {
+  const adjustments = parseAdjustments(instruction);
+  const hash = hashText(instruction.toLowerCase().trim());
+
+  if (adjustments.length === 0) {
+    // Nothing recognised: offer the same recipe with fresh seeds rather than nothing at all
+    return STRENGTHS.map((_, variant) => ({
+      name: `Reseed ${variant + 1}`,
+      description: 'No adjustment recognised offline; same settings with a new seed.',
+      settings: { seed: hashInt(hash + variant) % 100000 },
+    }));
+  }
+
+  return STRENGTHS.map(({ label, factor }) => {
+    const patch: Partial<GrainSettings> = {};
+    const changes: string[] = [];
+    for (const [field, direction] of adjustments) {
+      const { min, max, integer } = RANGES[field];
+      const step = ADJUSTMENTS.find(a => a.field === field)!.step;
+      let value = settings[field] + Math.sign(direction) * step * factor;
+      value = Math.min(max, Math.max(min, integer ? Math.round(value) : round(value)));
+      if (value === settings[field]) continue;
+      patch[field] = value;
+      changes.push(`${direction > 0 ? 'more' : 'less'} ${field}`);
+    }
+    return {
+      name: `${label} Refinement`,
+      description: changes.length ? `${changes.join(', ')}.` : 'Already at the limit; nothing left to change.',
+      settings: patch,
+    };
+  });
+};
+
+export const offlineProvider: RecipeProvider = {
+  id: 'OFFLINE',
+  label: 'Offline',
+  fetchRecipes: async (request: RecipeRequest) =>
+    request.type === 'generate' ? deriveOfflineRecipes(request.style) : refineOfflineRecipes(request.instruction, request.settings),
+};
@@ -0,0 +1,43 @@
+import { RecipeProvider, buildRecipeMessages } from './aiProvider';
+
+// Chat models can't take a response schema everywhere, so the shape is spelled out instead
+const JSON_INSTRUCTIONS = 'Reply with JSON only, in the form {"recipes": [{"name": "...", "description": "...", "settings": {...}}]}.';
+
+// Accepts {recipes: [...]} or a bare array, optionally wrapped in a ```json fence
+const parseRecipes = (content: string): unknown => {
+  const parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  return Array.isArray(parsed) ? parsed : parsed?.recipes;
+};
+
+export const openAiProvider: RecipeProvider = {
+  id: 'OPENAI',
+  label: 'OpenAI-compatible',
+  fetchRecipes: async (request, config) => {
+    const { endpoint, model, apiKey } = config.openai;
+    if (!endpoint.trim()) throw new Error('No endpoint set. Add one in the AI settings.');
+
+    const response = await fetch(`${endpoint.trim().replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: JSON_INSTRUCTIONS },
+          ...buildRecipeMessages(request),
+        ],
+        response_format: { type: 'json_object' },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`${endpoint} answered ${response.status} ${response.statusText}`.trim());
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('The endpoint returned no message.');
+    return parseRecipes(content);
+  },
+};
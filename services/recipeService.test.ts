@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { APP_LIMITS, ColorMode, DEFAULT_SETTINGS, GrainTexture } from '../types';
+import { ENGINE_VERSION } from '../engine/grainEngine';
+import { decodeSettingsHash, encodeSettingsHash, validateAIRecipe, validateSettings } from './recipeService';
+
+describe('validateSettings', () => {
+  it('accepts the defaults without issues', () => {
+    expect(validateSettings(DEFAULT_SETTINGS)).toEqual({ settings: DEFAULT_SETTINGS, issues: [] });
+  });
+
+  it('clamps numbers, rounds integers and reports both', () => {
+    const { settings, issues } = validateSettings({ intensity: 3, scale: 0, octaves: 2.6 });
+    expect(settings.intensity).toBe(1);
+    expect(settings.scale).toBe(1);
+    expect(settings.octaves).toBe(3);
+    expect(issues).toHaveLength(3);
+  });
+
+  it('falls back to the base for rejected values', () => {
+    const base = { ...DEFAULT_SETTINGS, texture: GrainTexture.PERLIN };
+    const { settings, issues } = validateSettings({ texture: 'VELVET', bgColor: 'blue', width: 'wide', tileable: 1 }, base);
+    expect(settings).toEqual(base);
+    expect(issues).toHaveLength(4);
+  });
+
+  it('normalizes short hex colors', () => {
+    expect(validateSettings({ grainColor: 'a0f' }).settings.grainColor).toBe('#AA00FF');
+  });
+
+  it('reports unknown fields and ignores them', () => {
+    const { settings, issues } = validateSettings({ sparkle: true });
+    expect(settings).not.toHaveProperty('sparkle');
+    expect(issues).toEqual(['Ignored unknown field "sparkle".']);
+  });
+
+  it('migrates the legacy monochrome flag unless colorMode is set', () => {
+    expect(validateSettings({ monochrome: false }).settings.colorMode).toBe(ColorMode.COLOR);
+    expect(validateSettings({ monochrome: true }).settings.colorMode).toBe(ColorMode.MONO);
+    expect(validateSettings({ monochrome: true, colorMode: ColorMode.COLOR }).settings.colorMode).toBe(ColorMode.COLOR);
+    expect(validateSettings({ monochrome: false }).issues).toEqual([]);
+  });
+
+  it('rejects palettes without any weight', () => {
+    const { settings, issues } = validateSettings({ palette: [{ color: '#fff', weight: 0 }] });
+    expect(settings.palette).toEqual(DEFAULT_SETTINGS.palette);
+    expect(issues).toHaveLength(1);
+  });
+
+  it('validates every layer against the layer fields only', () => {
+    const { settings, issues } = validateSettings({
+      layers: [
+        { name: ' Dust ', visible: false, settings: { intensity: 2, width: 10 } },
+        { name: 'Broken' },
+      ],
+    });
+    expect(settings.layers).toHaveLength(1);
+    expect(settings.layers[0]).toMatchObject({ name: 'Dust', visible: false, settings: { intensity: 1 } });
+    expect(settings.layers[0].settings).not.toHaveProperty('width');
+    expect(issues).toHaveLength(3);
+  });
+
+  it('refuses more layers than the document allows', () => {
+    const layer = { name: 'Layer', visible: true, settings: {} };
+    const { settings, issues } = validateSettings({ layers: Array(APP_LIMITS.MAX_LAYERS).fill(layer) });
+    expect(settings.layers).toEqual(DEFAULT_SETTINGS.layers);
+    expect(issues).toHaveLength(1);
+  });
+
+  it('drops painted masks that do not decode', () => {
+    const { settings, issues } = validateSettings({ mask: { painted: { width: 4, height: 4, data: 'nope' } } });
+    expect(settings.mask.painted).toBeNull();
+    expect(issues).toHaveLength(1);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(validateSettings([1, 2]).settings).toBe(DEFAULT_SETTINGS);
+  });
+});
+
+describe('validateAIRecipe', () => {
+  it('keeps the document size out of model recipes', () => {
+    const result = validateAIRecipe({ name: ' Film ', settings: { width: 10, intensity: 0.5 } });
+    expect(result?.recipe).toEqual({ name: 'Film', description: '', settings: { intensity: 0.5 } });
+    expect(result?.issues).toHaveLength(1);
+  });
+
+  it('keeps layers, masks and output settings out of model recipes', () => {
+    const result = validateAIRecipe({
+      name: 'Takeover',
+      settings: { layers: [], baseLayer: { name: 'X', visible: false }, mask: {}, tileable: true, outputMode: 'HALFTONE', halftoneLpi: 20, halftoneAngle: 45, bgColor: '#eee', scale: 2 },
+    });
+    expect(result?.recipe.settings).toEqual({ bgColor: '#EEEEEE', scale: 2 });
+    expect(result?.issues).toHaveLength(7);
+  });
+
+  it('returns null for replies that are not recipes', () => {
+    expect(validateAIRecipe({ name: '', settings: {} })).toBeNull();
+    expect(validateAIRecipe({ name: 'No settings' })).toBeNull();
+  });
+});
+
+describe('settings hash', () => {
+  it('round-trips settings through a link', async () => {
+    const settings = { ...DEFAULT_SETTINGS, seed: 1234, texture: GrainTexture.PAPER_FIBER, bgColor: '#102030' };
+    const hash = await encodeSettingsHash(settings);
+    expect(hash).toMatch(/^#grainy=1\.[\w-]+$/);
+    expect(await decodeSettingsHash(hash)).toEqual({ engineVersion: ENGINE_VERSION, settings, issues: [] });
+  });
+
+  it('ignores hashes without a recipe and rejects damaged ones', async () => {
+    expect(await decodeSettingsHash('#other=1')).toBeNull();
+    await expect(decodeSettingsHash('#grainy=9.abc')).rejects.toThrow('Unsupported');
+    await expect(decodeSettingsHash('#grainy=1.abc')).rejects.toThrow('damaged');
+  });
+});
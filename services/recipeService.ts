@@ -0,0 +1,384 @@
+import { GrainSettings, GrainTexture, OutputMode, BlendMode, ColorMode, AIRecipe, PaletteColor, GrainLayer, LayerInfo, GrainMask, MaskShape, APP_LIMITS, DEFAULT_SETTINGS, LAYER_FIELDS, AI_RECIPE_FIELDS } from '../types';
+import { ENGINE_VERSION } from '../engine/grainEngine';
+import { getBaseStyle } from '../engine/layers';
+import { decodePaintedMask } from '../engine/mask';
+import { readPngText } from '../codecs/png';
+
+// PNG text keyword holding the JSON recipe
+const RECIPE_KEYWORD = 'Grainy Recipe';
+
+// URL hash carrying a shared recipe: #grainy=<version>.<base64url deflated JSON>
+const HASH_KEY = 'grainy';
+const HASH_VERSION = 1;
+
+export const RECIPE_FILE_EXTENSION = '.grainy.json';
+
+export interface EmbeddedRecipe {
+  engineVersion: number;
+  settings: GrainSettings;
+}
+
+export interface SettingsValidation {
+  settings: GrainSettings;
+  // Human-readable notes about every value that was dropped or adjusted
+  issues: string[];
+}
+
+// --- Validation ---
+
+// Allowed range of every numeric field; integer fields are rounded
+const NUMBER_FIELDS: { key: keyof GrainSettings; min: number; max: number; integer?: boolean }[] = [
+  { key: 'width', min: APP_LIMITS.MIN_DIMENSION, max: APP_LIMITS.MAX_TILED_DIMENSION, integer: true },
+  { key: 'height', min: APP_LIMITS.MIN_DIMENSION, max: APP_LIMITS.MAX_TILED_DIMENSION, integer: true },
+  { key: 'ppi', min: 1, max: APP_LIMITS.MAX_PPI },
+  { key: 'intensity', min: 0, max: 1 },
+  { key: 'scale', min: 1, max: APP_LIMITS.MAX_SCALE },
+  { key: 'roughness', min: 0, max: APP_LIMITS.MAX_ROUGHNESS },
+  { key: 'opacity', min: 0, max: 1 },
+  { key: 'randomness', min: 0, max: 1 },
+  { key: 'clumpSize', min: APP_LIMITS.MIN_CLUMP_SIZE, max: APP_LIMITS.MAX_CLUMP_SIZE },
+  { key: 'clumpOctaves', min: 1, max: APP_LIMITS.MAX_CLUMP_OCTAVES, integer: true },
+  { key: 'clumpContrast', min: 0, max: 1 },
+  { key: 'clumpAngle', min: 0, max: 180 },
+  { key: 'clumpStretch', min: 1, max: APP_LIMITS.MAX_CLUMP_STRETCH },
+  { key: 'seed', min: 0, max: 0xffffffff, integer: true },
+  { key: 'octaves', min: 1, max: APP_LIMITS.MAX_OCTAVES, integer: true },
+  { key: 'persistence', min: 0, max: 1 },
+  { key: 'fiberAngle', min: 0, max: 180 },
+  { key: 'halftoneLpi', min: APP_LIMITS.MIN_LPI, max: APP_LIMITS.MAX_LPI },
+  { key: 'halftoneAngle', min: 0, max: 90 },
+  { key: 'lumaNoise', min: 0, max: 1 },
+  { key: 'chromaNoise', min: 0, max: 1 },
+];
+
+const ENUM_FIELDS: { key: keyof GrainSettings; values: string[] }[] = [
+  { key: 'texture', values: Object.values(GrainTexture) },
+  { key: 'outputMode', values: Object.values(OutputMode) },
+  { key: 'blendMode', values: Object.values(BlendMode) },
+  { key: 'colorMode', values: Object.values(ColorMode) },
+];
+
+// Per-channel (R, G, B) triplets
+const CHANNEL_FIELDS: { key: keyof GrainSettings; min: number; max: number }[] = [
+  { key: 'channelIntensity', min: 0, max: 1 },
+  { key: 'channelScale', min: APP_LIMITS.MIN_CHANNEL_SCALE, max: APP_LIMITS.MAX_CHANNEL_SCALE },
+];
+
+const COLOR_FIELDS: (keyof GrainSettings)[] = ['bgColor', 'grainColor'];
+const BOOLEAN_FIELDS: (keyof GrainSettings)[] = ['tileable'];
+
+// Replaced by colorMode; still read from older recipes and links
+const LEGACY_FIELDS = ['monochrome'];
+const MAX_CURVE_POINTS = 16;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// #RGB or #RRGGBB, normalized to upper-case #RRGGBB
+const normalizeColor = (value: unknown) => {
+  if (typeof value !== 'string') return null;
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+  return `#${hex.toUpperCase()}`;
+};
+
+const MASK_NUMBER_FIELDS: { key: keyof GrainMask; min: number; max: number }[] = [
+  { key: 'angle', min: 0, max: 360 },
+  { key: 'centerX', min: 0, max: 1 },
+  { key: 'centerY', min: 0, max: 1 },
+  { key: 'start', min: 0, max: 1 },
+  { key: 'end', min: 0, max: 1 },
+  { key: 'from', min: 0, max: 1 },
+  { key: 'to', min: 0, max: 1 },
+];
+
+// Gradient parameters are clamped like any other number; a painted bitmap is kept only if it decodes
+const validateMask = (value: unknown, issues: string[]): GrainMask | null => {
+  if (!isRecord(value)) {
+    issues.push('mask must be an object; ignored.');
+    return null;
+  }
+  let mask: GrainMask = { ...DEFAULT_SETTINGS.mask };
+  if ('shape' in value) {
+    if (Object.values(MaskShape).includes(value.shape as MaskShape)) mask = { ...mask, shape: value.shape as MaskShape };
+    else issues.push(`mask.shape "${String(value.shape)}" is not one of ${Object.values(MaskShape).join(', ')}; ignored.`);
+  }
+  for (const { key, min, max } of MASK_NUMBER_FIELDS) {
+    if (!(key in value)) continue;
+    const number = value[key];
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      issues.push(`mask.${key} must be a number; ignored.`);
+      continue;
+    }
+    const next = Math.min(max, Math.max(min, number));
+    if (next !== number) issues.push(`mask.${key} ${number} adjusted to ${next} (allowed ${min} to ${max}).`);
+    mask = { ...mask, [key]: next };
+  }
+  const painted = value.painted;
+  if (isRecord(painted)) {
+    const { width, height, data } = painted;
+    const valid =
+      Number.isInteger(width) && Number.isInteger(height) && typeof data === 'string' &&
+      (width as number) >= 1 && (height as number) >= 1 &&
+      Math.max(width as number, height as number) <= APP_LIMITS.MASK_RESOLUTION &&
+      !!decodePaintedMask({ width: width as number, height: height as number, data });
+    if (valid) mask = { ...mask, painted: { width: width as number, height: height as number, data: data as string } };
+    else issues.push('mask.painted is damaged; the painted density was dropped.');
+  } else if (painted !== undefined && painted !== null) {
+    issues.push('mask.painted must be a bitmap or null; ignored.');
+  }
+  return mask;
+};
+
+// Layer name and visibility; visible unless it says otherwise
+const validateLayerInfo = (value: unknown): LayerInfo | null => {
+  if (!isRecord(value) || typeof value.name !== 'string') return null;
+  return { name: value.name.trim().slice(0, 40) || 'Layer', visible: value.visible !== false };
+};
+
+// Checks every known field present in `source` against APP_LIMITS. Returns only the usable
+// values (clamped where needed); rejected values are left out and reported.
+const validateFields = (source: Record<string, unknown>) => {
+  const values: Record<string, unknown> = {};
+  const issues: string[] = [];
+
+  for (const { key, min, max, integer } of NUMBER_FIELDS) {
+    if (!(key in source)) continue;
+    const value = source[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${key} must be a number; ignored.`);
+      continue;
+    }
+    let next = integer ? Math.round(value) : value;
+    next = Math.min(max, Math.max(min, next));
+    if (next !== value) issues.push(`${key} ${value} adjusted to ${next} (allowed ${min} to ${max}).`);
+    values[key] = next;
+  }
+
+  for (const { key, values: allowed } of ENUM_FIELDS) {
+    if (!(key in source)) continue;
+    if (allowed.includes(source[key] as string)) values[key] = source[key];
+    else issues.push(`${key} "${String(source[key])}" is not one of ${allowed.join(', ')}; ignored.`);
+  }
+
+  for (const key of COLOR_FIELDS) {
+    if (!(key in source)) continue;
+    const color = normalizeColor(source[key]);
+    if (color) values[key] = color;
+    else issues.push(`${key} "${String(source[key])}" is not a hex color; ignored.`);
+  }
+
+  for (const key of BOOLEAN_FIELDS) {
+    if (!(key in source)) continue;
+    if (typeof source[key] === 'boolean') values[key] = source[key];
+    else issues.push(`${key} must be true or false; ignored.`);
+  }
+
+  for (const { key, min, max } of CHANNEL_FIELDS) {
+    if (!(key in source)) continue;
+    const channels = source[key];
+    if (!Array.isArray(channels) || channels.length !== 3 || channels.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+      issues.push(`${key} must be 3 numbers (R, G, B); ignored.`);
+      continue;
+    }
+    const clamped = channels.map(v => Math.min(max, Math.max(min, v)));
+    if (clamped.some((v, i) => v !== channels[i])) issues.push(`${key} adjusted to ${min} to ${max}.`);
+    values[key] = clamped;
+  }
+
+  if ('palette' in source) {
+    const palette = source.palette;
+    const entries = Array.isArray(palette)
+      ? palette.map(entry => ({
+          color: normalizeColor(isRecord(entry) ? entry.color : null),
+          weight: isRecord(entry) && typeof entry.weight === 'number' && Number.isFinite(entry.weight) ? Math.max(0, entry.weight) : null,
+        }))
+      : [];
+    if (!entries.length || entries.length > APP_LIMITS.MAX_PALETTE_COLORS || entries.some(e => !e.color || e.weight === null) || entries.every(e => !e.weight)) {
+      issues.push(`palette must be 1 to ${APP_LIMITS.MAX_PALETTE_COLORS} { color, weight } entries with some weight above 0; ignored.`);
+    } else {
+      values.palette = entries as PaletteColor[];
+    }
+  }
+
+  // Older recipes: monochrome grain is MONO, colored grain is COLOR
+  if (!('colorMode' in source) && typeof source.monochrome === 'boolean') {
+    values.colorMode = source.monochrome ? ColorMode.MONO : ColorMode.COLOR;
+  }
+
+  if ('responseCurve' in source) {
+    const curve = source.responseCurve;
+    if (!Array.isArray(curve) || curve.length < 2 || curve.length > MAX_CURVE_POINTS || curve.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+      issues.push(`responseCurve must be 2 to ${MAX_CURVE_POINTS} numbers; ignored.`);
+    } else {
+      const clamped = curve.map(v => Math.min(1, Math.max(0, v)));
+      if (clamped.some((v, i) => v !== curve[i])) issues.push('responseCurve points adjusted to 0 to 1.');
+      values.responseCurve = clamped;
+    }
+  }
+
+  if ('mask' in source) {
+    const mask = validateMask(source.mask, issues);
+    if (mask) values.mask = mask;
+  }
+
+  if ('baseLayer' in source) {
+    const info = validateLayerInfo(source.baseLayer);
+    if (info) values.baseLayer = info;
+    else issues.push('baseLayer must be { name, visible }; ignored.');
+  }
+
+  if ('layers' in source) {
+    const layers = source.layers;
+    if (!Array.isArray(layers) || layers.length >= APP_LIMITS.MAX_LAYERS) {
+      issues.push(`layers must be a list of at most ${APP_LIMITS.MAX_LAYERS - 1} layers; ignored.`);
+    } else {
+      values.layers = layers.flatMap((layer, i): GrainLayer[] => {
+        const info = validateLayerInfo(layer);
+        if (!info || !isRecord(layer) || !isRecord(layer.settings)) {
+          issues.push(`Layer ${i + 2} must be { name, visible, settings }; ignored.`);
+          return [];
+        }
+        // Each layer carries its own style; document fields stay with the document
+        const style = layer.settings;
+        const extra = Object.keys(style).filter(key => !(LAYER_FIELDS as readonly string[]).includes(key));
+        extra.forEach(key => issues.push(`Layer ${i + 2}: ${key} is set by the document; ignored.`));
+        const checked = validateFields(Object.fromEntries(LAYER_FIELDS.filter(key => key in style).map(key => [key, style[key]])));
+        checked.issues.forEach(issue => issues.push(`Layer ${i + 2}: ${issue}`));
+        return [{ ...info, settings: { ...getBaseStyle(DEFAULT_SETTINGS), ...checked.values } }];
+      });
+    }
+  }
+
+  for (const key of Object.keys(source)) {
+    if (!(key in DEFAULT_SETTINGS) && !LEGACY_FIELDS.includes(key)) issues.push(`Ignored unknown field "${key}".`);
+  }
+  return { values: values as Partial<GrainSettings>, issues };
+};
+
+// Checks untrusted settings (shared links, recipe files) field by field against APP_LIMITS.
+// Missing or rejected fields come from `base`; out-of-range values are clamped and reported.
+export const validateSettings = (input: unknown, base: GrainSettings = DEFAULT_SETTINGS): SettingsValidation => {
+  if (!isRecord(input)) return { settings: base, issues: ['Settings must be an object.'] };
+  const { values, issues } = validateFields(input);
+  return { settings: { ...base, ...values }, issues };
+};
+
+// Checks one recipe from a language model. Returns null when it isn't recognisably a recipe;
+// otherwise the settings patch holds only valid, clamped fields and `issues` lists the rest.
+export const validateAIRecipe = (input: unknown): { recipe: AIRecipe; issues: string[] } | null => {
+  if (!isRecord(input) || typeof input.name !== 'string' || !input.name.trim() || !isRecord(input.settings)) return null;
+
+  const source = { ...input.settings };
+  const issues: string[] = [];
+  // Anything outside the whitelist belongs to the document; unknown fields are reported by validateFields
+  for (const key of Object.keys(source)) {
+    if (!(key in DEFAULT_SETTINGS) || AI_RECIPE_FIELDS.includes(key as keyof GrainSettings)) continue;
+    delete source[key];
+    issues.push(`${key} is set by the document; ignored.`);
+  }
+  const { values, issues: fieldIssues } = validateFields(source);
+  return {
+    recipe: {
+      name: input.name.trim(),
+      description: typeof input.description === 'string' ? input.description.trim() : '',
+      settings: values,
+    },
+    issues: [...issues, ...fieldIssues],
+  };
+};
+
+// --- PNG metadata ---
+
+// Text entries written into exported PNGs so the exact settings travel with the file
+export const createRecipeText = (settings: GrainSettings): Record<string, string> => ({
+  Software: 'Grainy.ai',
+  [RECIPE_KEYWORD]: JSON.stringify({ engineVersion: ENGINE_VERSION, settings }),
+});
+
+// Returns the recipe stored in a Grainy PNG, or null for any other file
+export const readEmbeddedRecipe = async (file: Blob): Promise<EmbeddedRecipe | null> => {
+  const text = await readPngText(new Uint8Array(await file.arrayBuffer()));
+  const json = text[RECIPE_KEYWORD];
+  if (!json) return null;
+
+  const parsed = JSON.parse(json);
+  if (!parsed || typeof parsed.settings !== 'object') throw new Error('The embedded Grainy recipe is damaged.');
+  return {
+    engineVersion: Number(parsed.engineVersion) || 0,
+    // Fields added since the file was exported fall back to their defaults
+    settings: validateSettings(parsed.settings).settings,
+  };
+};
+
+// --- Shareable links ---
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+// URL hash (including the #) that reproduces these settings when opened
+export const encodeSettingsHash = async (settings: GrainSettings) => {
+  const json = JSON.stringify({ engineVersion: ENGINE_VERSION, settings });
+  const packed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `#${HASH_KEY}=${HASH_VERSION}.${toBase64Url(packed)}`;
+};
+
+// Reads a hash made by encodeSettingsHash; null when the hash holds no recipe
+export const decodeSettingsHash = async (hash: string): Promise<(EmbeddedRecipe & { issues: string[] }) | null> => {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+  if (!value) return null;
+
+  const [version, payload] = value.split('.', 2);
+  if (Number(version) !== HASH_VERSION || !payload) {
+    throw new Error(`Unsupported recipe link format "${version}".`);
+  }
+  let parsed: { engineVersion?: unknown; settings?: unknown };
+  try {
+    const json = new TextDecoder().decode(await pipeBytes(fromBase64Url(payload), new DecompressionStream('deflate-raw')));
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('This recipe link is damaged or incomplete.');
+  }
+  const { settings, issues } = validateSettings(parsed.settings);
+  return { engineVersion: Number(parsed.engineVersion) || 0, settings, issues };
+};
+
+// --- Recipe files ---
+
+export const createRecipeFile = (recipe: AIRecipe) =>
+  new Blob([JSON.stringify(recipe, null, 2)], { type: 'application/json' });
+
+// Parses a .grainy.json file (same shape as AIRecipe) and validates its settings
+export const readRecipeFile = async (file: Blob): Promise<{ recipe: AIRecipe & { settings: GrainSettings }; issues: string[] }> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This recipe file is not valid JSON.');
+  }
+  if (!parsed || typeof parsed !== 'object' || !('settings' in parsed)) {
+    throw new Error('This file is not a Grainy recipe: it has no "settings".');
+  }
+  const { name, description, settings: rawSettings } = parsed as Record<string, unknown>;
+  const { settings, issues } = validateSettings(rawSettings);
+  return {
+    recipe: {
+      name: typeof name === 'string' && name.trim() ? name.trim() : 'Imported Recipe',
+      description: typeof description === 'string' ? description : '',
+      settings,
+    },
+    issues,
+  };
+};
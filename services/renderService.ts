@@ -0,0 +1,145 @@
+import { GrainSettings, APP_LIMITS } from '../types';
+import { GrainBuffer, getOutputSize } from '../engine/grainEngine';
+import { mapLayerStyles } from '../engine/layers';
+import type { RenderRequest, RenderResponse } from '../engine/grain.worker';
+import type { StreamedEncoding } from '../engine/stripEncoder';
+import type { BaseImage } from './imageService';
+
+export interface RenderJob<T = GrainBuffer> {
+  // Resolves with null when the job was cancelled
+  promise: Promise<T | null>;
+  cancel: () => void;
+}
+
+export interface StartRenderOptions {
+  onProgress?: (progress: number) => void;
+  base?: BaseImage | null;
+  transparent?: boolean;
+  // For stand-ins from createDisplaySettings / createPreviewSettings
+  downscale?: number;
+}
+
+// Settings for a scaled-down render of a larger output, with the factor the engine shrinks
+// grain cells and everything measured in them by
+export interface ScaledSettings {
+  settings: GrainSettings;
+  downscale: number;
+}
+
+type FinishedResponse = Exclude<RenderResponse, { type: 'progress' | 'error' }>;
+
+// Renders above this size get a quick low-res pass first
+const PREVIEW_PIXELS = 400000;
+
+let idleWorker: Worker | null = null;
+let nextJobId = 1;
+// Which base image each worker already holds
+const workerBaseKeys = new WeakMap<Worker, number>();
+
+const createWorker = () =>
+  new Worker(new URL('../engine/grain.worker.ts', import.meta.url), { type: 'module' });
+
+const startJob = (
+  request: Omit<RenderRequest, 'id' | 'base'>,
+  { onProgress, base }: StartRenderOptions
+): RenderJob<FinishedResponse> => {
+  const worker = idleWorker ?? createWorker();
+  idleWorker = null;
+
+  const id = nextJobId++;
+  let settled = false;
+  let resolveJob: (response: FinishedResponse | null) => void = () => {};
+
+  const promise = new Promise<FinishedResponse | null>((resolve, reject) => {
+    resolveJob = resolve;
+    worker.onmessage = (e: MessageEvent<RenderResponse>) => {
+      const msg = e.data;
+      if (msg.id !== id || settled) return;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.progress);
+        return;
+      }
+      settled = true;
+      // Keep one warm worker around for the next job
+      if (idleWorker) worker.terminate();
+      else idleWorker = worker;
+      if (msg.type === 'error') reject(new Error(msg.message));
+      else resolve(msg);
+    };
+    worker.onerror = (e) => {
+      settled = true;
+      worker.terminate();
+      reject(new Error(e.message || 'Grain worker failed'));
+    };
+  });
+
+  const message: RenderRequest = { id, ...request };
+  if (base) {
+    const cached = workerBaseKeys.get(worker) === base.key;
+    message.base = { key: base.key, buffer: cached ? undefined : base.buffer };
+    workerBaseKeys.set(worker, base.key);
+  }
+  worker.postMessage(message);
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      settled = true;
+      // The render loop is synchronous inside the worker, so the only way to stop it is to drop the worker
+      worker.terminate();
+      resolveJob(null);
+    },
+  };
+};
+
+export const startRender = (settings: GrainSettings, options: StartRenderOptions = {}): RenderJob => {
+  const job = startJob({ settings, transparent: options.transparent, downscale: options.downscale }, options);
+  return {
+    promise: job.promise.then(msg => (msg?.type === 'done' ? { width: msg.width, height: msg.height, data: msg.data } : null)),
+    cancel: job.cancel,
+  };
+};
+
+// Full-resolution PNG / TIFF rendered and encoded strip by strip inside the worker
+export const startStreamedExport = (
+  settings: GrainSettings,
+  encode: StreamedEncoding,
+  options: StartRenderOptions = {}
+): RenderJob<Blob> => {
+  const job = startJob({ settings, transparent: options.transparent, encode }, options);
+  return {
+    promise: job.promise.then(msg => (msg?.type === 'file' ? msg.blob : null)),
+    cancel: job.cancel,
+  };
+};
+
+// Same recipe at 1/factor of the size. Pixel-sized parameters of every layer are scaled here;
+// grain cells and what's measured in them (clumps, texture structures) by the engine.
+const scaleSettings = ({ settings, downscale }: ScaledSettings, factor: number): ScaledSettings => ({
+  settings: {
+    ...mapLayerStyles(settings, style => ({ roughness: style.roughness / factor })),
+    width: Math.max(1, Math.round(settings.width / factor)),
+    height: Math.max(1, Math.round(settings.height / factor)),
+    // Keeps halftone dots the same size relative to the canvas
+    ppi: settings.ppi / factor,
+  },
+  downscale: downscale * factor,
+});
+
+// What the live canvas shows: the settings themselves, or a copy scaled down to fit one canvas
+// when the output is larger (those are exported in strips at full size)
+export const createDisplaySettings = (settings: GrainSettings): ScaledSettings => {
+  const { width, height } = getOutputSize(settings);
+  const longest = Math.max(width, height);
+  const display = { settings, downscale: 1 };
+  return longest > APP_LIMITS.MAX_DIMENSION ? scaleSettings(display, longest / APP_LIMITS.MAX_DIMENSION) : display;
+};
+
+// Downscaled copy of the display settings for the fast first pass, or null when the full render is cheap enough
+export const createPreviewSettings = (display: ScaledSettings): ScaledSettings | null => {
+  const { width, height } = getOutputSize(display.settings);
+  const pixels = width * height;
+  if (pixels <= PREVIEW_PIXELS) return null;
+  return scaleSettings(display, Math.sqrt(pixels / PREVIEW_PIXELS));
+};
@@ -0,0 +1,96 @@
+import { GrainSettings, APP_LIMITS } from '../types';
+import { hashInt } from '../engine/random';
+import { encodeZip, ZipEntry } from '../codecs/zip';
+import { startRender } from './renderService';
+import { DEFAULT_EXPORT_OPTIONS, exportImage } from './exportService';
+import { BaseImage } from './imageService';
+import { createRecipeFile, RECIPE_FILE_EXTENSION } from './recipeService';
+
+export type SweepField = 'seed' | 'intensity' | 'scale' | 'roughness' | 'randomness';
+
+// Seeds are drawn fresh; the engine controls are stepped evenly between two values
+export const SWEEP_FIELDS: { field: SweepField; label: string; min: number; max: number; step: number }[] = [
+  { field: 'seed', label: 'Seed', min: 0, max: 99999, step: 1 },
+  { field: 'intensity', label: 'Intensity', min: 0, max: 1, step: 0.01 },
+  { field: 'scale', label: 'Scale', min: 1, max: APP_LIMITS.MAX_SCALE, step: 0.1 },
+  { field: 'roughness', label: 'Roughness', min: 0, max: APP_LIMITS.MAX_ROUGHNESS, step: 0.01 },
+  { field: 'randomness', label: 'Randomness', min: 0, max: 1, step: 0.01 },
+];
+
+export const VARIATION_COUNTS = [4, 9, 16];
+
+export interface SweepRange {
+  from: number;
+  to: number;
+}
+
+export interface Variation {
+  label: string;
+  settings: GrainSettings;
+}
+
+const getSweepField = (field: SweepField) => SWEEP_FIELDS.find(f => f.field === field)!;
+const roundTo = (value: number, step: number) => parseFloat((Math.round(value / step) * step).toFixed(2));
+
+// Half the control's range, centered on the current value and shifted to stay inside it
+export const getDefaultSweepRange = (settings: GrainSettings, field: SweepField): SweepRange => {
+  const { min, max, step } = getSweepField(field);
+  if (field === 'seed') return { from: min, to: max };
+  const span = (max - min) / 2;
+  const from = Math.min(max - span, Math.max(min, settings[field] - span / 2));
+  return { from: roundTo(from, step), to: roundTo(from + span, step) };
+};
+
+// `batch` draws a different set of seeds; the first sheet starts with the current seed,
+// so it always includes what's on the canvas
+export const createVariations = (
+  settings: GrainSettings,
+  field: SweepField,
+  count: number,
+  range: SweepRange,
+  batch = 0
+): Variation[] => {
+  const { label, min, max, step } = getSweepField(field);
+  return Array.from({ length: count }, (_, i) => {
+    if (field === 'seed') {
+      const seed = batch === 0 && i === 0 ? settings.seed : hashInt(settings.seed * 31 + batch * count + i) % 100000;
+      return { label: `${label} ${seed}`, settings: { ...settings, seed } };
+    }
+    const t = count > 1 ? i / (count - 1) : 0;
+    const value = Math.min(max, Math.max(min, roundTo(range.from + (range.to - range.from) * t, step)));
+    return { label: `${label} ${value}`, settings: { ...settings, [field]: value } };
+  });
+};
+
+// Grain-only crop at the real scale, like the library thumbnails, so particle sizes compare truthfully
+export const renderVariationThumbnail = (variation: Variation, size: number) =>
+  startRender({ ...variation.settings, width: size, height: size });
+
+const fileSafe = (text: string) => text.replace(/[^A-Za-z0-9.]+/g, '_');
+
+// Renders each variation at full resolution as a PNG (recipe embedded as usual) with its
+// .grainy.json next to it, one after the other so only one full-size render is held at a time
+export const exportVariations = async (
+  variations: Variation[],
+  base: BaseImage | null,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  for (const [i, { label, settings }] of variations.entries()) {
+    const name = `${String(i + 1).padStart(2, '0')}_${fileSafe(`${settings.texture}_${label}`)}`;
+    const png = await exportImage(settings, null, base, { ...DEFAULT_EXPORT_OPTIONS, format: 'PNG', transparent: false }, p =>
+      onProgress?.((i + p) / variations.length)
+    );
+    const recipe = createRecipeFile({
+      name: `${settings.texture} ${label}`,
+      description: `${settings.width}×${settings.height} px at ${settings.ppi} PPI`,
+      settings,
+    });
+    entries.push(
+      { name: `${name}.png`, data: new Uint8Array(await png.arrayBuffer()) },
+      { name: `${name}${RECIPE_FILE_EXTENSION}`, data: new Uint8Array(await recipe.arrayBuffer()) }
+    );
+  }
+  onProgress?.(1);
+  return new Blob(encodeZip(entries), { type: 'application/zip' });
+};
@@ -3,7 +3,71 @@ export enum GrainTexture {
   UNIFORM = 'UNIFORM',
   GAUSSIAN = 'GAUSSIAN',
   SPECKLE = 'SPECKLE',
-  FILM = 'FILM'
+  FILM = 'FILM',
+  BLUE_NOISE = 'BLUE_NOISE',
+  PERLIN = 'PERLIN',
+  PAPER_FIBER = 'PAPER_FIBER'
+}
+
+export enum OutputMode {
+  CONTINUOUS = 'CONTINUOUS',
+  BAYER = 'BAYER',
+  FLOYD_STEINBERG = 'FLOYD_STEINBERG',
+  ATKINSON = 'ATKINSON',
+  HALFTONE = 'HALFTONE'
+}
+
+export enum BlendMode {
+  NORMAL = 'NORMAL',
+  MULTIPLY = 'MULTIPLY',
+  SCREEN = 'SCREEN',
+  OVERLAY = 'OVERLAY',
+  SOFT_LIGHT = 'SOFT_LIGHT',
+  LINEAR_LIGHT = 'LINEAR_LIGHT'
+}
+
+export enum ColorMode {
+  MONO = 'MONO',
+  COLOR = 'COLOR',
+  PALETTE = 'PALETTE'
+}
+
+// One entry of the PALETTE color mode; weights are relative to the other entries
+export interface PaletteColor {
+  color: string;
+  weight: number;
+}
+
+export enum MaskShape {
+  NONE = 'NONE',
+  LINEAR = 'LINEAR',
+  RADIAL = 'RADIAL'
+}
+
+// Hand-painted grain density, stretched over the canvas
+export interface PaintedMask {
+  width: number;
+  height: number;
+  data: string; // base64 of the PackBits-compressed 8-bit densities, row by row
+}
+
+// Grain density across the canvas: a gradient times an optional painted bitmap
+export interface GrainMask {
+  shape: MaskShape;
+  angle: number; // 0 to 360 degrees (LINEAR: direction the gradient runs in)
+  centerX: number; // 0 to 1 (RADIAL center across)
+  centerY: number; // 0 to 1 (RADIAL center down)
+  start: number; // 0 to 1 (where the ramp begins: along the axis, or out from the center)
+  end: number; // 0 to 1 (where the ramp ends)
+  from: number; // 0 to 1 (density before the ramp)
+  to: number; // 0 to 1 (density after the ramp)
+  painted: PaintedMask | null;
+}
+
+// Name and visibility of one layer in the stack
+export interface LayerInfo {
+  name: string;
+  visible: boolean;
 }
 
 export interface GrainSettings {
@@ -15,11 +79,51 @@ export interface GrainSettings {
   roughness: number; // 0 to 1 (blur amount)
   opacity: number; // 0 to 1
   randomness: number; // 0 to 1 (clumping/distribution)
+  clumpSize: number; // grain cells across one clump
+  clumpOctaves: number; // 1 to 6 (clump detail layers)
+  clumpContrast: number; // 0 to 1 (0.5 neutral; higher gives harder-edged clumps)
+  clumpAngle: number; // 0 to 180 degrees (direction of stretched clumps)
+  clumpStretch: number; // 1 (round) to 8 (long streaks)
   seed: number;
   bgColor: string;
   grainColor: string;
   texture: GrainTexture;
-  monochrome: boolean;
+  octaves: number; // 1 to 8 (PERLIN detail layers)
+  persistence: number; // 0 to 1 (PERLIN amplitude falloff per octave)
+  fiberAngle: number; // 0 to 180 degrees (PAPER_FIBER direction)
+  colorMode: ColorMode; // MONO draws every particle in grainColor, COLOR adds film dye-layer noise, PALETTE picks from `palette`
+  lumaNoise: number; // 0 to 1 (COLOR: brightness variation between particles)
+  chromaNoise: number; // 0 to 1 (COLOR: hue variation between particles)
+  channelIntensity: number[]; // 0 to 1 per R, G, B dye layer (COLOR)
+  channelScale: number[]; // grain size factor per R, G, B dye layer (COLOR)
+  palette: PaletteColor[]; // particle colors for PALETTE
+  tileable: boolean; // wrap noise, clumps and blur at the edges
+  blendMode: BlendMode; // how grain color combines with the pixel underneath
+  responseCurve: number[]; // grain strength (0 to 1) at evenly spaced luminance points, shadows to highlights
+  mask: GrainMask; // where on the canvas the grain appears
+  outputMode: OutputMode; // CONTINUOUS alpha blends, the others render true 1-bit
+  halftoneLpi: number; // lines per inch of the HALFTONE screen
+  halftoneAngle: number; // 0 to 90 degrees (HALFTONE screen angle)
+  baseLayer: LayerInfo; // the bottom layer, whose style is the fields above
+  layers: GrainLayer[]; // further layers stacked on top, bottom to top
+}
+
+// Fields every layer of the stack sets for itself; size, background and output belong to the document
+export const LAYER_FIELDS = [
+  'texture', 'scale', 'intensity', 'roughness', 'opacity', 'randomness', 'clumpSize', 'clumpOctaves',
+  'clumpContrast', 'clumpAngle', 'clumpStretch', 'seed', 'grainColor',
+  'octaves', 'persistence', 'fiberAngle', 'colorMode', 'lumaNoise', 'chromaNoise',
+  'channelIntensity', 'channelScale', 'palette', 'blendMode', 'responseCurve', 'mask',
+] as const;
+
+export type LayerStyle = Pick<GrainSettings, typeof LAYER_FIELDS[number]>;
+
+// Fields an AI recipe may set: one layer's style and the paper color. Masks, the layer stack,
+// size and output mode stay with the user's document.
+export const AI_RECIPE_FIELDS: (keyof GrainSettings)[] = [...LAYER_FIELDS.filter(key => key !== 'mask'), 'bgColor'];
+
+export interface GrainLayer extends LayerInfo {
+  settings: LayerStyle;
 }
 
 export interface AIRecipe {
@@ -29,10 +133,74 @@ export interface AIRecipe {
 }
 
 export const APP_LIMITS = {
-  MAX_DIMENSION: 5000,
+  MAX_DIMENSION: 5000, // largest single-canvas render (live preview, JPEG / WebP export)
+  MAX_TILED_DIMENSION: 20000, // PNG / TIFF exports rendered and encoded in strips
   MIN_DIMENSION: 1,
   MAX_PPI: 600,
   MAX_SCALE: 20,
   MAX_ROUGHNESS: 1,
+  MAX_OCTAVES: 8,
+  MIN_CLUMP_SIZE: 4,
+  MAX_CLUMP_SIZE: 200,
+  MAX_CLUMP_OCTAVES: 6,
+  MAX_CLUMP_STRETCH: 8,
+  MIN_CHANNEL_SCALE: 0.5,
+  MAX_CHANNEL_SCALE: 3,
+  MAX_PALETTE_COLORS: 8,
+  MAX_LAYERS: 8,
+  MASK_RESOLUTION: 256, // longest side of a painted mask
+  MIN_LPI: 10,
+  MAX_LPI: 200,
   SAFE_PIXELS: 25000000, // 5000 * 5000
 };
+
+export const DEFAULT_SETTINGS: GrainSettings = {
+  width: 1920,
+  height: 1080,
+  ppi: 72,
+  intensity: 0.15,
+  scale: 1,
+  roughness: 0,
+  opacity: 1,
+  randomness: 0,
+  clumpSize: 50,
+  clumpOctaves: 1,
+  clumpContrast: 0.5,
+  clumpAngle: 0,
+  clumpStretch: 1,
+  seed: 12345,
+  bgColor: '#FFFFFF',
+  grainColor: '#000000',
+  texture: GrainTexture.UNIFORM,
+  octaves: 4,
+  persistence: 0.5,
+  fiberAngle: 0,
+  colorMode: ColorMode.MONO,
+  lumaNoise: 1,
+  chromaNoise: 0.5,
+  channelIntensity: [1, 1, 1],
+  channelScale: [1, 1, 1],
+  palette: [
+    { color: '#FF48B0', weight: 1 },
+    { color: '#0078BF', weight: 1 },
+  ],
+  tileable: false,
+  outputMode: OutputMode.CONTINUOUS,
+  halftoneLpi: 65,
+  halftoneAngle: 45,
+  blendMode: BlendMode.NORMAL,
+  responseCurve: [1, 1, 1, 1, 1],
+  mask: {
+    shape: MaskShape.NONE,
+    angle: 90,
+    centerX: 0.5,
+    centerY: 0.5,
+    start: 0,
+    end: 1,
+    from: 1,
+    to: 0,
+    painted: null,
+  },
+  baseLayer: { name: 'Grain', visible: true },
+  layers: [],
+};